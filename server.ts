@@ -1,25 +1,145 @@
 import express from 'express';
 import { createServer as createViteServer } from 'vite';
 import { GoogleGenAI, Type } from '@google/genai';
-import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import path from 'path';
 import axios from 'axios';
+import { randomUUID } from 'crypto';
+import {
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  getAccountBalances,
+  getUpcomingInvoices,
+  invoiceClosingDate,
+  invoiceDueDate,
+  isCard,
+  parseTransfer,
+  resolveAccount,
+} from './server/accounts';
+import { parseCommand, runCommand } from './server/commands';
+import { parseCorrection } from './server/corrections';
+import { createStorage, getAttachmentsDir, NewInboundMessage, NewPendingConfirmation, TransactionChanges, verifyAttachmentLink } from './server/storage';
+import { ExtractedTransaction, parseMessageWithRules } from './server/parser';
+import { ModelTransaction, validateModelTransaction } from './server/extraction';
+import { JobWorker, startJobWorker } from './server/queue';
+import { isSenderAllowed, parseAllowlist, verifyWahaSignature } from './server/security';
+import { checkBudgets, getBudgetStatuses } from './server/budgets';
+import {
+  buildShares,
+  formatGroupDebts,
+  getGroupDebts,
+  isGroupChat,
+  memberName,
+  parseSettlement,
+  parseSplit,
+  resolveSplitMembers,
+} from './server/groups';
+import {
+  cancelInstallmentPurchase,
+  firstInstallments,
+  getInstallmentOverview,
+  insertTransactions,
+  isInstallmentCount,
+  TransactionRow,
+} from './server/installments';
+import {
+  MISSING_FIELDS,
+  applyPendingCorrection,
+  formatPendingExpired,
+  formatPendingQuestion,
+  hasMissingAmount,
+  needsConfirmation,
+  parsePendingAnswer,
+  reviewExtraction,
+  startPendingExpiry,
+} from './server/pending';
+import { formatDate, formatMoney, formatTransactionAmount } from './server/format';
+import { addAmounts, amountChanges, BASE_CURRENCY, convertToBase, isCurrencyCode } from './server/money';
+import {
+  Account,
+  AccountKind,
+  CashFlowGranularity,
+  MessageOutcome,
+  PendingConfirmation,
+  RecurringRule,
+  Transaction,
+  Transfer,
+} from './src/types';
+import { FALLBACK_CATEGORIES, Taxonomy, categoryNames, findCategory, loadTaxonomy, normalizeCategoryKey, resolveCategory } from './server/categories';
+import {
+  calendarDate,
+  calendarDateToTimestamp,
+  daysBetween,
+  daysInMonth,
+  getTimeZone,
+  isCalendarDate,
+  occurredAtTimestamp,
+  periodOf,
+  shiftPeriod,
+  toCalendarDate,
+} from './server/dates';
+import { generateMonthlyReports, renderReportHtml, renderReportText, startReportScheduler } from './server/reports';
+import { listScheduledEntries, nextOccurrence, parseRecurringRule, startRecurringScheduler } from './server/recurring';
+import { buildImportPreview, commitImport, isValidImportRow, parseStatement } from './server/importer';
+import { EXPORT_FORMATS, ExportFormat, exportTransactions } from './server/export';
+import { CASH_FLOW_GRANULARITIES, MAX_CASH_FLOW_DAYS, getCashFlow, getDashboardStats } from './server/stats';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  isValidDay,
+  parseTransactionFilters,
+  validateTransactionChanges,
+} from './server/transactions';
 
 dotenv.config();
 
 const app = express();
 const PORT = 3000;
 
-// Supabase Setup
-const supabaseUrl = process.env.SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_ANON_KEY || '';
-const supabase = createClient(supabaseUrl, supabaseKey);
+// Storage Setup (Supabase or local SQLite, see STORAGE_DRIVER)
+const storage = createStorage();
+let worker: JobWorker | null = null;
 
-// Gemini Setup
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
+// Webhook Security
+const WEBHOOK_HMAC_KEY = process.env.WAHA_WEBHOOK_HMAC_KEY || '';
+const ALLOWED_SENDERS = parseAllowlist(process.env.WHATSAPP_ALLOWED_SENDERS);
+const REJECTED_SENDER_REPLY = process.env.WHATSAPP_REJECTED_REPLY || '';
+const REJECTED_REPLY_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const rejectedRepliesSentAt = new Map<string, number>();
 
-app.use(express.json());
+// Gemini Setup (optional: without a key every text message goes through the rule-based parser)
+const genAI = process.env.GEMINI_API_KEY ? new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY }) : null;
+
+// "gemini" asks the LLM first and falls back to rules; "rules-first" only calls the LLM when rules find nothing
+const EXTRACTOR_MODE = process.env.EXTRACTOR_MODE === 'rules-first' ? 'rules-first' : 'gemini';
+
+// Extractions Gemini is less sure of than this wait for the sender to confirm them, for a limited time
+const CONFIDENCE_THRESHOLD = Number(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || 0.7);
+const PENDING_CONFIRMATION_MS = Number(process.env.PENDING_CONFIRMATION_MINUTES || 30) * 60 * 1000;
+const JOB_RETENTION_MS = Number(process.env.WEBHOOK_JOB_RETENTION_DAYS || 7) * 24 * 60 * 60 * 1000;
+
+// Keep the raw bytes around: the WAHA HMAC is computed over the body exactly as sent
+app.use(express.json({
+  // Bank statements are uploaded as JSON text and can be a few megabytes
+  limit: '5mb',
+  verify: (req: express.Request, res, buf) => {
+    req.rawBody = buf;
+  },
+}));
+
+// Receipt photos of the SQLite driver; only the expiring links storage.attachments.url() mints are served
+app.get('/attachments/:name', (req, res) => {
+  const { expires, signature } = req.query;
+  if (typeof expires !== 'string' || typeof signature !== 'string' || !verifyAttachmentLink(req.params.name, expires, signature)) {
+    return res.sendStatus(403);
+  }
+  // `root` keeps the name from reaching outside the folder
+  res.sendFile(req.params.name, { root: getAttachmentsDir() }, (error) => {
+    if (error && !res.headersSent) res.sendStatus(404);
+  });
+});
 
 // API Routes
 app.get('/api/health', (req, res) => {
@@ -28,143 +148,1485 @@ app.get('/api/health', (req, res) => {
 
 app.get('/api/status', async (req, res) => {
   const status = {
-    supabase: false,
+    storage: false,
+    driver: storage.driver,
     gemini: false,
     waha: false,
     env: {
-      supabase: !!process.env.SUPABASE_URL && !!process.env.SUPABASE_ANON_KEY,
+      storage: storage.driver === 'sqlite' || (!!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY),
       gemini: !!process.env.GEMINI_API_KEY,
       waha: !!process.env.WAHA_API_URL,
     }
   };
 
   try {
-    const { error } = await supabase.from('transactions').select('id').limit(1);
-    status.supabase = !error;
-  } catch (e) {
-    status.supabase = false;
+    status.storage = await storage.transactions.ping();
+  } catch (e) {
+    status.storage = false;
+  }
+
+  try {
+    const model = genAI && await genAI.models.get({ model: 'gemini-3-flash-preview' });
+    status.gemini = !!model;
+  } catch (e) {
+    status.gemini = false;
+  }
+
+  if (process.env.WAHA_API_URL) {
+    try {
+      const response = await axios.get(`${process.env.WAHA_API_URL}/api/health`, { timeout: 2000 });
+      status.waha = response.status === 200;
+    } catch (e) {
+      status.waha = false;
+    }
+  }
+
+  res.json(status);
+});
+
+// Cards and charts for an inclusive YYYY-MM-DD range, the current month by default
+app.get('/api/stats', async (req, res) => {
+  const today = calendarDate();
+  const [year, month] = today.split('-').map(Number);
+  const since = typeof req.query.since === 'string' && req.query.since ? req.query.since : toCalendarDate(year, month, 1);
+  const until = typeof req.query.until === 'string' && req.query.until ? req.query.until : toCalendarDate(year, month, daysInMonth(year, month));
+  if (!isValidDay(since) || !isValidDay(until) || since > until) {
+    return res.status(400).json({ error: 'since and until must be YYYY-MM-DD dates with since <= until' });
+  }
+
+  try {
+    res.json(await getDashboardStats(storage, since, until));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/cashflow', async (req, res) => {
+  const { since, until } = req.query;
+  const granularity = (typeof req.query.granularity === 'string' ? req.query.granularity : 'day') as CashFlowGranularity;
+  if (typeof since !== 'string' || typeof until !== 'string' || !since || !until || !isValidDay(since) || !isValidDay(until) || since > until) {
+    return res.status(400).json({ error: 'since and until must be YYYY-MM-DD dates with since <= until' });
+  }
+  if (daysBetween(since, until) >= MAX_CASH_FLOW_DAYS) {
+    return res.status(400).json({ error: `The range cannot span more than ${MAX_CASH_FLOW_DAYS} days` });
+  }
+  if (!CASH_FLOW_GRANULARITIES.includes(granularity)) {
+    return res.status(400).json({ error: `granularity must be one of ${CASH_FLOW_GRANULARITIES.join(', ')}` });
+  }
+
+  try {
+    res.json(await getCashFlow(storage, since, until, granularity));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Newest first, one page at a time; pass `next_cursor` back as `cursor` for the following page
+app.get('/api/transactions', async (req, res) => {
+  const { query, error } = parseTransactionFilters(req.query);
+  if (error) return res.status(400).json({ error });
+
+  if (typeof req.query.cursor === 'string' && req.query.cursor) {
+    query.after = decodeCursor(req.query.cursor);
+    if (!query.after) return res.status(400).json({ error: 'Invalid cursor' });
+  }
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  try {
+    // One extra row tells whether another page exists
+    const rows = await storage.transactions.list({ ...query, limit: limit + 1 });
+    const data = rows.slice(0, limit);
+    const last = data[data.length - 1];
+    res.json({ data: await Promise.all(data.map(withAttachmentUrl)), next_cursor: rows.length > limit ? encodeCursor(last) : null });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.patch('/api/transactions/:id', async (req, res) => {
+  const { changes, error } = validateTransactionChanges(req.body);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    if (changes.category) {
+      const category = findCategory(await loadTaxonomy(storage), changes.category);
+      if (!category) return res.status(400).json({ error: `Unknown category: ${changes.category}` });
+      changes.category = category.name;
+    }
+
+    if (changes.account_id) {
+      const account = (await storage.accounts.list()).find((a) => a.id === changes.account_id);
+      if (!account) return res.status(400).json({ error: `Unknown account: ${changes.account_id}` });
+      if (isCard(account)) changes.payment_method = 'credit';
+    }
+
+    const current = await storage.transactions.get(req.params.id);
+    if (!current) return res.status(404).json({ error: 'Transaction not found' });
+    // An edited amount is in the currency the transaction was made in
+    if (changes.amount !== undefined) Object.assign(changes, amountChanges(current, changes.amount));
+
+    const transaction = await storage.transactions.update(req.params.id, changes);
+    if (!transaction) return res.status(404).json({ error: 'Transaction not found' });
+    res.json(await withAttachmentUrl(transaction));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/transactions/:id', async (req, res) => {
+  try {
+    if (!(await storage.transactions.remove(req.params.id))) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+    await storage.groups.removeEntriesForTransactions([req.params.id]);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/simulate', async (req, res) => {
+  const { text } = req.body;
+  if (!text) return res.status(400).json({ error: 'Text is required' });
+
+  try {
+    const message = await storage.messages.insert({
+      source: 'simulator',
+      whatsapp_from: 'Simulador',
+      text,
+      payload: req.body,
+      outcome: 'received',
+      received_at: new Date().toISOString(),
+    });
+    const result = await processLogged(message.id, () => simulateMessage(text, message.id));
+    res.status(result.outcome === 'ignored' ? 400 : 200).json(result.response);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// WAHA Webhook
+// Messages are persisted to the job queue and acknowledged right away; the worker does the slow part
+app.post('/api/webhook/whatsapp', async (req, res) => {
+  try {
+    if (WEBHOOK_HMAC_KEY) {
+      const rejection = verifyWahaSignature(req.rawBody, req.headers, WEBHOOK_HMAC_KEY);
+      if (rejection) {
+        console.warn(`Rejected WAHA webhook from ${req.ip}: ${rejection}`);
+        return res.sendStatus(401);
+      }
+    }
+
+    const { event, payload } = req.body;
+    console.log('Received WAHA event:', event);
+
+    if ((event === 'message.upsert' || event === 'message') && payload) {
+      const messageId = wahaMessageId(payload) || randomUUID();
+      if (!isSenderAllowed(payload, ALLOWED_SENDERS)) {
+        console.warn(`Rejected WAHA message from ${payload.from}${payload.participant ? ` (${payload.participant})` : ''}: sender not allowed`);
+        try {
+          await storage.messages.insert(toInboundMessage(payload, messageId, 'rejected'));
+        } catch (error) {
+          console.error('Storage error:', error);
+        }
+        void replyToRejectedSender(payload.from);
+        return res.sendStatus(200);
+      }
+
+      // Logged before it is queued, so the worker always finds the message to record the outcome on
+      await storage.messages.insert(toInboundMessage(payload, messageId, 'received'));
+      const queued = await storage.jobs.enqueue(messageId, payload);
+      if (queued) {
+        worker?.wake();
+      } else {
+        console.log('Duplicate WAHA message ignored:', messageId);
+      }
+    }
+
+    res.sendStatus(200);
+  } catch (error) {
+    // Nothing was persisted, so a 500 lets WAHA redeliver the event
+    console.error('Webhook error:', error);
+    res.sendStatus(500);
+  }
+});
+
+app.get('/api/budgets', async (req, res) => {
+  try {
+    res.json(await getBudgetStatuses(storage));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/budgets', async (req, res) => {
+  const { category, monthly_limit } = req.body;
+  const limit = Number(monthly_limit);
+  if (!category || typeof category !== 'string' || !Number.isFinite(limit) || limit <= 0) {
+    return res.status(400).json({ error: 'category and a positive monthly_limit are required' });
+  }
+
+  try {
+    const known = findCategory(await loadTaxonomy(storage), category);
+    if (!known) return res.status(400).json({ error: `Unknown category: ${category}` });
+    res.json(await storage.budgets.upsert(known.name, limit));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/budgets/:id', async (req, res) => {
+  try {
+    const removed = await storage.budgets.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Budget not found' });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/categories', async (req, res) => {
+  try {
+    res.json(await storage.categories.list());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/categories', async (req, res) => {
+  const { name, type, parent_id, icon, color } = req.body;
+  if (!name || typeof name !== 'string' || !['income', 'expense'].includes(type)) {
+    return res.status(400).json({ error: 'name and type (income or expense) are required' });
+  }
+  if (color && !/^#[0-9a-f]{6}$/i.test(color)) {
+    return res.status(400).json({ error: 'color must be a hex color such as #10b981' });
+  }
+
+  try {
+    const taxonomy = await loadTaxonomy(storage);
+    if (findCategory(taxonomy, name)) return res.status(409).json({ error: 'Category already exists' });
+
+    const parent = parent_id ? taxonomy.categories.find((category) => category.id === parent_id) : null;
+    if (parent_id && (!parent || parent.parent_id)) {
+      return res.status(400).json({ error: 'parent_id must be an existing top-level category' });
+    }
+    if (parent && parent.type !== type) {
+      return res.status(400).json({ error: 'A subcategory must have the same type as its parent' });
+    }
+
+    res.json(await storage.categories.insert({
+      name: name.trim().toLowerCase(),
+      type,
+      parent_id: parent?.id || null,
+      icon: typeof icon === 'string' && icon.trim() ? icon.trim() : null,
+      color: color || null,
+    }));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Categories still used by transactions or subcategories are kept, so no row loses its category
+app.delete('/api/categories/:id', async (req, res) => {
+  try {
+    const { categories } = await loadTaxonomy(storage);
+    const category = categories.find((item) => item.id === req.params.id);
+    if (!category) return res.status(404).json({ error: 'Category not found' });
+
+    if (Object.values(FALLBACK_CATEGORIES).includes(category.name)) {
+      return res.status(409).json({ error: 'Fallback categories cannot be deleted' });
+    }
+    if (categories.some((item) => item.parent_id === category.id)) {
+      return res.status(409).json({ error: 'Category has subcategories' });
+    }
+    if ((await storage.transactions.list({ category: category.name, limit: 1 })).length > 0) {
+      return res.status(409).json({ error: 'Category is used by transactions' });
+    }
+
+    await storage.categories.remove(category.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/merchant-rules', async (req, res) => {
+  try {
+    res.json(await storage.merchantRules.list());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Creates or re-points a rule: descriptions containing `pattern` always get `category`
+app.put('/api/merchant-rules', async (req, res) => {
+  const { pattern, category } = req.body;
+  const key = typeof pattern === 'string' ? normalizeCategoryKey(pattern) : '';
+  if (key.length < 3 || !category || typeof category !== 'string') {
+    return res.status(400).json({ error: 'pattern (3+ characters) and category are required' });
+  }
+
+  try {
+    const known = findCategory(await loadTaxonomy(storage), category);
+    if (!known) return res.status(400).json({ error: `Unknown category: ${category}` });
+    res.json(await storage.merchantRules.upsert(key, known.name));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/merchant-rules/:id', async (req, res) => {
+  try {
+    const removed = await storage.merchantRules.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Merchant rule not found' });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/exchange-rates', async (req, res) => {
+  try {
+    res.json(await storage.exchangeRates.list());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Rates are base-currency units per unit of `currency`, in force from `valid_from` (today by default)
+app.put('/api/exchange-rates', async (req, res) => {
+  const { rate, valid_from } = req.body;
+  const currency = typeof req.body.currency === 'string' ? req.body.currency.trim().toUpperCase() : '';
+  if (!isCurrencyCode(currency) || currency === BASE_CURRENCY) {
+    return res.status(400).json({ error: `currency must be an ISO 4217 code other than ${BASE_CURRENCY}` });
+  }
+  if (typeof rate !== 'number' || !(rate > 0)) {
+    return res.status(400).json({ error: 'rate must be a positive number' });
+  }
+  if (valid_from !== undefined && (typeof valid_from !== 'string' || !isValidDay(valid_from))) {
+    return res.status(400).json({ error: 'valid_from must be YYYY-MM-DD' });
+  }
+
+  try {
+    res.json(await storage.exchangeRates.upsert(currency, valid_from || calendarDate(), rate));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/exchange-rates/:id', async (req, res) => {
+  try {
+    const removed = await storage.exchangeRates.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Exchange rate not found' });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const ACCOUNT_KINDS: AccountKind[] = ['checking', 'savings', 'cash', 'credit_card'];
+
+// Accounts with their balance up to now, plus the net of transactions recorded without one
+app.get('/api/accounts', async (req, res) => {
+  try {
+    res.json(await getAccountBalances(storage));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/accounts', async (req, res) => {
+  const { kind } = req.body;
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  const openingBalance = req.body.opening_balance === undefined ? 0 : Number(req.body.opening_balance);
+  if (!name || !ACCOUNT_KINDS.includes(kind) || !Number.isFinite(openingBalance)) {
+    return res.status(400).json({ error: `name and kind (${ACCOUNT_KINDS.join(', ')}) are required` });
+  }
+  const isDay = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 31;
+  if (kind === 'credit_card' && (!isDay(req.body.closing_day) || !isDay(req.body.due_day))) {
+    return res.status(400).json({ error: 'closing_day and due_day (1-31) are required for credit cards' });
+  }
+
+  try {
+    const accounts = await storage.accounts.list();
+    if (accounts.some((account) => account.name.toLowerCase() === name.toLowerCase())) {
+      return res.status(409).json({ error: `Account already exists: ${name}` });
+    }
+    res.json(await storage.accounts.insert({
+      name,
+      kind,
+      closing_day: kind === 'credit_card' ? req.body.closing_day : null,
+      due_day: kind === 'credit_card' ? req.body.due_day : null,
+      opening_balance: openingBalance,
+    }));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Accounts that money was recorded in cannot be deleted, or their history would lose its balance
+app.delete('/api/accounts/:id', async (req, res) => {
+  try {
+    const [transactions, transfers] = await Promise.all([
+      storage.transactions.list({ accountId: req.params.id, limit: 1 }),
+      storage.transfers.list({ accountId: req.params.id }),
+    ]);
+    if (transactions.length > 0 || transfers.length > 0) {
+      return res.status(409).json({ error: 'Account has transactions or transfers' });
+    }
+    const removed = await storage.accounts.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Account not found' });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/transfers', async (req, res) => {
+  try {
+    res.json(await storage.transfers.list());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/transfers', async (req, res) => {
+  const { from_account_id, to_account_id, occurred_at } = req.body;
+  const amount = Number(req.body.amount);
+  if (!(amount > 0) || (!from_account_id && !to_account_id) || from_account_id === to_account_id) {
+    return res.status(400).json({ error: 'amount and two different accounts (from_account_id, to_account_id) are required' });
+  }
+  if (occurred_at !== undefined && (typeof occurred_at !== 'string' || !isValidDay(occurred_at))) {
+    return res.status(400).json({ error: 'occurred_at must be YYYY-MM-DD' });
+  }
+
+  try {
+    const accounts = await storage.accounts.list();
+    const find = (id: unknown) => accounts.find((account) => account.id === id);
+    for (const id of [from_account_id, to_account_id]) {
+      if (id && !find(id)) return res.status(400).json({ error: `Unknown account: ${id}` });
+    }
+    const from = find(from_account_id);
+    const to = find(to_account_id);
+    const description = typeof req.body.description === 'string' && req.body.description.trim()
+      ? req.body.description.trim()
+      : to && isCard(to) ? `Fatura ${to.name}` : [from?.name, to?.name].filter(Boolean).join(' → ');
+
+    res.json(await storage.transfers.insert({
+      from_account_id: from?.id || null,
+      to_account_id: to?.id || null,
+      amount: Math.round(amount * 100) / 100,
+      description,
+      occurred_at: (occurred_at && calendarDateToTimestamp(occurred_at)) || new Date().toISOString(),
+      whatsapp_from: 'Dashboard',
+    }));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/transfers/:id', async (req, res) => {
+  try {
+    const removed = await storage.transfers.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Transfer not found' });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Card invoices still to pay, soonest due first
+app.get('/api/invoices/upcoming', async (req, res) => {
+  try {
+    res.json(await getUpcomingInvoices(storage));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Purchases with installments still to come and the spending they commit in each coming month
+app.get('/api/installments', async (req, res) => {
+  try {
+    res.json(await getInstallmentOverview(storage));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Cancelling removes the installments still to come; those already paid stay in the history
+app.delete('/api/installments/:id', async (req, res) => {
+  try {
+    const purchase = (await storage.installments.list()).find((p) => p.id === req.params.id);
+    if (!purchase) return res.status(404).json({ error: 'Installment purchase not found' });
+    if (purchase.cancelled_at) return res.status(409).json({ error: 'Installment purchase already cancelled' });
+
+    const result = await cancelInstallmentPurchase(storage, purchase.id);
+    res.json({ success: true, removed: result?.removed || 0 });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/pending', async (req, res) => {
+  try {
+    // The expiry runs every minute; what it has not caught yet is already out of time
+    const now = new Date();
+    res.json((await storage.pending.list('pending')).filter((pending) => new Date(pending.expires_at) > now));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/pending/:id/confirm', async (req, res) => {
+  try {
+    const pending = await storage.pending.get(req.params.id);
+    if (!pending) return res.status(404).json({ error: 'Pending confirmation not found' });
+    if (pending.status !== 'pending' || new Date(pending.expires_at) <= new Date()) {
+      return res.status(409).json({ error: 'Pending confirmation was already resolved or expired' });
+    }
+    if (hasMissingAmount(pending)) return res.status(400).json({ error: 'Amount is missing' });
+
+    const saved = await confirmPending(pending);
+    if (!saved) return res.status(409).json({ error: 'Pending confirmation was already resolved or expired' });
+    res.json({ success: true, transactions: saved });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/pending/:id', async (req, res) => {
+  try {
+    if (!(await storage.pending.get(req.params.id))) {
+      return res.status(404).json({ error: 'Pending confirmation not found' });
+    }
+    const cancelled = await storage.pending.resolve(req.params.id, 'cancelled', new Date().toISOString());
+    if (!cancelled) return res.status(409).json({ error: 'Pending confirmation was already resolved or expired' });
+    await settlePendingMessage(cancelled, 'dismissed', 'Cancelled before saving');
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/recurring', async (req, res) => {
+  try {
+    const rules = await storage.recurring.list();
+    res.json(rules.map((rule) => ({ ...rule, next_occurrence: nextOccurrence(rule) })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/recurring', async (req, res) => {
+  const { amount, type, category, description, day_of_month, end_date } = req.body;
+  const day = Number(day_of_month);
+  if (
+    !(Number(amount) > 0) ||
+    !['income', 'expense'].includes(type) ||
+    !category ||
+    !description ||
+    !Number.isInteger(day) || day < 1 || day > 31 ||
+    (end_date && !isCalendarDate(end_date))
+  ) {
+    return res.status(400).json({ error: 'amount, type, category, description and day_of_month (1-31) are required' });
+  }
+
+  try {
+    const known = findCategory(await loadTaxonomy(storage), category);
+    if (!known) return res.status(400).json({ error: `Unknown category: ${category}` });
+
+    const rule = await storage.recurring.insert({
+      amount: Number(amount),
+      type,
+      category: known.name,
+      description,
+      day_of_month: day,
+      start_date: calendarDate(),
+      end_date: end_date || null,
+      whatsapp_from: 'Dashboard',
+    });
+    res.json({ ...rule, next_occurrence: nextOccurrence(rule) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/recurring/:id', async (req, res) => {
+  try {
+    const removed = await storage.recurring.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Recurring rule not found' });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Scheduled entries not yet materialized, by default until the end of the current month
+app.get('/api/recurring/upcoming', async (req, res) => {
+  const today = calendarDate();
+  const [year, month] = today.split('-').map(Number);
+  const until = typeof req.query.until === 'string' && isCalendarDate(req.query.until)
+    ? req.query.until
+    : toCalendarDate(year, month, daysInMonth(year, month));
+
+  try {
+    res.json(await listScheduledEntries(storage, until, today));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/reports', async (req, res) => {
+  try {
+    res.json(await storage.reports.list());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Generates missing reports for a period (previous month by default) without sending them
+app.post('/api/reports/generate', async (req, res) => {
+  const period = typeof req.body.period === 'string' && /^\d{4}-\d{2}$/.test(req.body.period)
+    ? req.body.period
+    : shiftPeriod(periodOf(), -1);
+
+  try {
+    res.json(await generateMonthlyReports(storage, period));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/reports/:id/html', async (req, res) => {
+  try {
+    const report = await storage.reports.get(req.params.id);
+    if (!report) return res.status(404).json({ error: 'Report not found' });
+
+    if (req.query.download) {
+      const sender = report.whatsapp_from.split('@')[0].replace(/[^\w-]/g, '_');
+      res.attachment(`relatorio-${report.period}-${sender}.html`);
+    }
+    res.type('html').send(renderReportHtml(report.summary));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Ledger download for the accountant, with the same filters as the transaction list
+app.get('/api/export', async (req, res) => {
+  const exportFormat = (typeof req.query.format === 'string' ? req.query.format : 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(exportFormat)) {
+    return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+  }
+  const { query, error } = parseTransactionFilters(req.query);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const transactions = await storage.transactions.list({ ...query, ascending: true });
+    const file = await exportTransactions(transactions, exportFormat);
+
+    res.attachment(`transacoes-${req.query.since || 'inicio'}-a-${req.query.until || calendarDate()}.${exportFormat}`);
+    res.type(file.contentType).send(file.body);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Parses an uploaded OFX/CSV statement and flags rows that are already in the ledger; nothing is saved yet
+app.post('/api/import/preview', async (req, res) => {
+  const { filename, content } = req.body;
+  if (typeof content !== 'string' || !content.trim()) {
+    return res.status(400).json({ error: 'File content is required' });
+  }
+
+  try {
+    const statement = parseStatement(typeof filename === 'string' ? filename : '', content);
+    if (statement.rows.length === 0) {
+      return res.status(400).json({ error: 'No transactions found in the file' });
+    }
+    res.json({ format: statement.format, rows: await buildImportPreview(storage, statement.rows) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/import/commit', async (req, res) => {
+  const { rows } = req.body;
+  if (!Array.isArray(rows) || !rows.every(isValidImportRow)) {
+    return res.status(400).json({ error: 'Invalid import rows' });
+  }
+
+  try {
+    res.json(await commitImport(storage, rows));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/jobs/dead', async (req, res) => {
+  try {
+    res.json(await storage.jobs.list('dead'));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/jobs/:id/replay', async (req, res) => {
+  try {
+    const job = await storage.jobs.update(req.params.id, {
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      next_attempt_at: new Date().toISOString(),
+    });
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+
+    worker?.wake();
+    res.json({ success: true, job });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Messages nothing was recorded from, waiting in the dashboard inbox
+const INBOX_OUTCOMES: MessageOutcome[] = ['ignored', 'failed'];
+
+app.get('/api/messages', async (req, res) => {
+  try {
+    const outcomes = typeof req.query.outcome === 'string' ? req.query.outcome.split(',') as MessageOutcome[] : [];
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || 50), 10) || 50, 1), 200);
+    res.json(await storage.messages.list({ outcomes, limit }));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/messages/:id', async (req, res) => {
+  try {
+    const message = await storage.messages.get(req.params.id);
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    const transactions = await storage.transactions.list({ inboundMessageId: message.id, ascending: true });
+    res.json({ ...message, transactions: await Promise.all(transactions.map(withAttachmentUrl)) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// WhatsApp messages go back through the job queue; simulator messages are processed right away
+app.post('/api/messages/:id/reprocess', async (req, res) => {
+  try {
+    const message = await storage.messages.get(req.params.id);
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    if (!INBOX_OUTCOMES.includes(message.outcome)) {
+      return res.status(409).json({ error: 'Only ignored or failed messages can be reprocessed' });
+    }
+
+    if (message.source === 'simulator') {
+      await processLogged(message.id, () => simulateMessage(message.text || '', message.id));
+      return res.json({ success: true, message: await storage.messages.get(message.id) });
+    }
+
+    const externalId = message.external_id || '';
+    const job = await storage.jobs.findByMessageId(externalId);
+    if (job?.status === 'pending' || job?.status === 'processing') {
+      return res.status(409).json({ error: 'Message is already queued for a retry' });
+    }
+    if (job) {
+      await storage.jobs.update(job.id, { status: 'pending', attempts: 0, last_error: null, next_attempt_at: new Date().toISOString() });
+    } else {
+      // Its job was pruned after it finished
+      await storage.jobs.enqueue(externalId, message.payload);
+    }
+    const updated = await storage.messages.update(message.id, { outcome: 'received', detail: null, error: null });
+    worker?.wake();
+    res.json({ success: true, message: updated });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Records by hand what the extractor could not read; the transaction points back to the message
+app.post('/api/messages/:id/transaction', async (req, res) => {
+  const { changes, error } = validateTransactionChanges(req.body);
+  if (error) return res.status(400).json({ error });
+  const missing = (['amount', 'type', 'category', 'description'] as const).filter((field) => changes[field] === undefined);
+  if (missing.length > 0) return res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+
+  try {
+    const message = await storage.messages.get(req.params.id);
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    if (!INBOX_OUTCOMES.includes(message.outcome)) {
+      return res.status(409).json({ error: 'Only ignored or failed messages can be turned into a transaction' });
+    }
+
+    const category = findCategory(await loadTaxonomy(storage), changes.category!);
+    if (!category) return res.status(400).json({ error: `Unknown category: ${changes.category}` });
+    if (changes.account_id) {
+      const account = (await storage.accounts.list()).find((a) => a.id === changes.account_id);
+      if (!account) return res.status(400).json({ error: `Unknown account: ${changes.account_id}` });
+      if (isCard(account)) changes.payment_method = 'credit';
+    }
+
+    const [transaction] = await storage.transactions.insert([{
+      ...changes,
+      amount: changes.amount!,
+      type: changes.type!,
+      description: changes.description!,
+      category: category.name,
+      occurred_at: changes.occurred_at || message.received_at,
+      ...(message.text ? { raw_text: message.text } : {}),
+      whatsapp_from: message.whatsapp_from,
+      paid_by: message.sender || null,
+      extractor: 'manual',
+      inbound_message_id: message.id,
+    }]);
+    await storage.messages.update(message.id, { outcome: 'manual', processed_at: new Date().toISOString() });
+    res.json({ success: true, transaction });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/messages/:id/dismiss', async (req, res) => {
+  try {
+    const message = await storage.messages.get(req.params.id);
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    if (!INBOX_OUTCOMES.includes(message.outcome)) {
+      return res.status(409).json({ error: 'Only ignored or failed messages can be dismissed' });
+    }
+    res.json({ success: true, message: await storage.messages.update(message.id, { outcome: 'dismissed' }) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/** What became of a message, recorded on its log entry */
+interface MessageResult {
+  outcome: MessageOutcome;
+  detail?: string;
+  /** The text that was processed: the transcript of a voice message */
+  text?: string;
+  extracted?: ExtractedTransaction[];
+}
+
+function toInboundMessage(payload: any, externalId: string, outcome: MessageOutcome): NewInboundMessage {
+  return {
+    source: 'whatsapp',
+    external_id: externalId,
+    whatsapp_from: payload.from,
+    sender: isGroupChat(payload.from) ? payload.participant || payload.author || null : null,
+    text: payload.body || null,
+    payload,
+    outcome,
+    received_at: new Date().toISOString(),
+  };
+}
+
+// Records the outcome and latency of each attempt on the message log; errors are recorded and thrown again
+async function processLogged<T extends MessageResult>(messageId: string | null, process: () => Promise<T>) {
+  const startedAt = Date.now();
+  try {
+    const result = await process();
+    await recordOutcome(messageId, startedAt, {
+      outcome: result.outcome,
+      detail: result.detail || null,
+      extracted: result.extracted || null,
+      error: null,
+      ...(result.text ? { text: result.text } : {}),
+    });
+    return result;
+  } catch (error: any) {
+    await recordOutcome(messageId, startedAt, { outcome: 'failed', error: error?.message || String(error) });
+    throw error;
   }
+}
 
+// The log is an audit trail, so failing to write it must not fail the message itself
+async function recordOutcome(messageId: string | null, startedAt: number, changes: Parameters<typeof storage.messages.update>[1]) {
+  if (!messageId) return;
   try {
-    const model = genAI.models.get({ model: 'gemini-3-flash-preview' });
-    status.gemini = !!model;
-  } catch (e) {
-    status.gemini = false;
+    await storage.messages.update(messageId, { ...changes, latency_ms: Date.now() - startedAt, processed_at: new Date().toISOString() });
+  } catch (error) {
+    console.error('Storage error:', error);
   }
+}
 
-  if (process.env.WAHA_API_URL) {
-    try {
-      const response = await axios.get(`${process.env.WAHA_API_URL}/api/health`, { timeout: 2000 });
-      status.waha = response.status === 200;
-    } catch (e) {
-      status.waha = false;
-    }
+// Messages queued before the log existed have no entry, and are processed all the same
+// Messages are only processed again after a failure or a reprocess request, even if their job runs twice
+const RETRYABLE_OUTCOMES: MessageOutcome[] = ['received', 'failed'];
+
+async function processQueuedMessage(externalId: string, payload: any) {
+  const message = await storage.messages.findByExternalId(externalId);
+  if (message && !RETRYABLE_OUTCOMES.includes(message.outcome)) {
+    console.log(`Message ${externalId} was already processed (${message.outcome}), skipping`);
+    return;
   }
+  await processLogged(message?.id || null, () => processWhatsAppMessage(payload, message?.id || null));
+}
 
-  res.json(status);
-});
+// The simulator saves like WhatsApp does, but answers with JSON instead of a message
+async function simulateMessage(text: string, inboundId: string | null): Promise<MessageResult & { response: object }> {
+  const receivedAt = new Date();
+  const transfer = parseTransfer(text, await storage.accounts.list());
+  if (transfer) {
+    const saved = await storage.transfers.insert({ ...transfer, whatsapp_from: 'Simulador' });
+    return { outcome: 'handled', detail: 'transfer', response: { success: true, transfers: [saved] } };
+  }
 
-app.post('/api/simulate', async (req, res) => {
-  const { text } = req.body;
-  if (!text) return res.status(400).json({ error: 'Text is required' });
+  const transactions = await extractTransactions(text, receivedAt);
+  if (transactions.length === 0) {
+    return { outcome: 'ignored', detail: 'Not a financial transaction', extracted: [], response: { error: 'Not a financial transaction' } };
+  }
+  const { rows, missingRates } = await toTransactionRows(transactions, receivedAt);
+  if (missingRates.length > 0) {
+    const detail = `No exchange rate for ${missingRates.join(', ')}`;
+    return { outcome: 'ignored', detail, extracted: transactions, response: { error: detail } };
+  }
 
-  try {
-    const transaction = await processMessageWithGemini(text);
-    if (transaction) {
-      const { data, error } = await supabase
-        .from('transactions')
-        .insert([
-          {
-            amount: transaction.amount,
-            type: transaction.type,
-            category: transaction.category,
-            description: transaction.description,
-            raw_text: text,
-            whatsapp_from: 'Simulador',
-          },
-        ])
-        .select();
+  const ready = rows.map((row) => ({ ...row, raw_text: text, whatsapp_from: 'Simulador', inbound_message_id: inboundId }));
+  const review = reviewExtraction(transactions);
+  if (needsConfirmation(review, CONFIDENCE_THRESHOLD)) {
+    const pending = await holdForConfirmation({ whatsapp_from: 'Simulador', sender: null, transactions: ready, split_with: [], ...review });
+    return { outcome: 'pending', extracted: transactions, response: { success: true, pending } };
+  }
+  const saved = await insertTransactions(storage, ready);
+  return { outcome: 'saved', extracted: transactions, response: { success: true, transactions: saved } };
+}
 
-      if (error) throw error;
-      return res.json({ success: true, transaction: data[0] });
-    }
-    res.status(400).json({ error: 'Not a financial transaction' });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+// At most one polite reply per sender every few hours, so a stranger cannot make the bot spam
+async function replyToRejectedSender(chatId: string) {
+  if (!REJECTED_SENDER_REPLY || !chatId) return;
+
+  const lastSentAt = rejectedRepliesSentAt.get(chatId) || 0;
+  if (Date.now() - lastSentAt < REJECTED_REPLY_INTERVAL_MS) return;
+
+  rejectedRepliesSentAt.set(chatId, Date.now());
+  await sendWhatsAppText(chatId, REJECTED_SENDER_REPLY);
+}
+
+// Throws on transient failures (media download, storage) so the job worker retries the message
+async function processWhatsAppMessage(message: any, inboundId: string | null = null): Promise<MessageResult> {
+  const body = message.body || '';
+  const from = message.from;
+  const isVoice = message.type === 'ptt' || message.type === 'audio';
+  const isImage = message.type === 'image' || !!message.media?.mimetype?.startsWith('image/');
+  // WAHA sends seconds; jobs can be retried much later, so "ontem" must be relative to the message itself
+  const receivedAt = message.timestamp ? new Date(message.timestamp * 1000) : new Date();
+  // In a group `from` is the group chat; the participant is who actually wrote (and paid)
+  const isGroup = isGroupChat(from);
+  const sender: string | null = isGroup ? message.participant || message.author || null : null;
+  if (isGroup && sender) {
+    await storage.groups.upsertMember(from, sender, message._data?.notifyName || message.notifyName || sender.split('@')[0]);
   }
-});
 
-// WAHA Webhook
-app.post('/api/webhook/whatsapp', async (req, res) => {
-  try {
-    const { event, payload } = req.body;
-    console.log('Received WAHA event:', event);
+  let textToProcess = body;
+  let transactions: ExtractedTransaction[] = [];
+  let attachmentUrl: string | null = null;
+  let split: ReturnType<typeof parseSplit> = null;
+
+  // Without Gemini, photos and voice messages cannot be read at all; that is a setup problem, not the message's
+  if ((isVoice || isImage) && !genAI) {
+    console.warn('GEMINI_API_KEY is not set; cannot read', isVoice ? 'voice message' : 'image', 'from', from);
+    return { outcome: 'ignored', detail: 'GEMINI_API_KEY is not set', text: body };
+  }
+
+  if (isVoice) {
+    console.log('Voice message received from:', from);
+    const media = await downloadWahaMedia(message, 'audio/ogg');
+    if (!media) throw new Error('Could not download voice message');
+
+    const transcript = await transcribeAudioWithGemini(media.data, media.mimeType);
+    if (!transcript) throw new Error('Could not transcribe voice message');
+    textToProcess = transcript;
+    console.log('Voice message transcribed:', textToProcess);
+  }
+
+  if (isImage) {
+    console.log('Image message received from:', from);
+    const media = await downloadWahaMedia(message, 'image/jpeg');
+    if (!media) throw new Error('Could not download image');
 
-    if (event === 'message.upsert' || event === 'message') {
-      const message = payload;
-      const body = message.body || '';
-      const from = message.from;
-      const isVoice = message.type === 'ptt' || message.type === 'audio';
-
-      let textToProcess = body;
-
-      if (isVoice) {
-        // In a real scenario, we'd download the audio from WAHA and send to Gemini
-        // For this demo, we'll assume WAHA might provide a transcription or we'd use Gemini's audio capabilities
-        // Since we are in a sandbox, we'll simulate the voice processing if needed, 
-        // but Gemini 2.5 Flash can handle audio if we have the bytes.
-        // For now, let's focus on text and mention audio support.
-        console.log('Voice message received from:', from);
+    const taxonomy = await loadTaxonomy(storage);
+    const receipt = await processImageWithGemini(media.data, media.mimeType, body, taxonomy, receivedAt);
+    if (receipt) {
+      // Merchant rules match the establishment name as well as the description
+      const category = resolveCategory(taxonomy, { ...receipt, description: `${receipt.merchant || ''} ${receipt.description}` });
+      transactions = [{ ...receipt, category, extractor: 'gemini' }];
+      split = isGroup ? parseSplit(body) : null;
+      attachmentUrl = await uploadAttachment(media.data, media.mimeType);
+    }
+  } else if (textToProcess) {
+    const quotedId: string | undefined = message.replyTo?.id;
+    if (quotedId && await applyCorrection(from, quotedId, textToProcess, receivedAt)) {
+      return { outcome: 'handled', detail: 'correction', text: textToProcess };
+    }
+    if (await answerPendingConfirmation(from, sender, textToProcess, receivedAt)) {
+      return { outcome: 'handled', detail: 'confirmation answer', text: textToProcess };
+    }
+
+    const command = parseCommand(textToProcess);
+    if (command) {
+      console.log('Command received from:', from, command);
+      await sendWhatsAppText(from, await runCommand(storage, command, from, sender));
+      return { outcome: 'handled', detail: `command ${command.name}`, text: textToProcess };
+    }
+
+    if (isGroup && sender) {
+      const members = await storage.groups.listMembers(from);
+      const settlement = parseSettlement(textToProcess, from, sender, members);
+      if (settlement) {
+        await storage.groups.insertEntries([settlement]);
+        console.log('Settlement saved:', settlement);
+        const paid = `🤝 Acerto registrado: ${memberName(members, settlement.debtor_id)} pagou ${formatMoney(settlement.amount)} para ${memberName(members, settlement.creditor_id)}.`;
+        await sendWhatsAppText(from, `${paid}\n\n${formatGroupDebts(await getGroupDebts(storage, from))}`);
+        return { outcome: 'handled', detail: 'settlement', text: textToProcess };
       }
+    }
 
-      if (textToProcess) {
-        const transaction = await processMessageWithGemini(textToProcess);
-        if (transaction) {
-          const { data, error } = await supabase
-            .from('transactions')
-            .insert([
-              {
-                amount: transaction.amount,
-                type: transaction.type,
-                category: transaction.category,
-                description: transaction.description,
-                raw_text: textToProcess,
-                whatsapp_from: from,
-              },
-            ]);
-
-          if (error) {
-            console.error('Supabase error:', error);
-          } else {
-            console.log('Transaction saved:', transaction);
-            // Optionally send a confirmation back via WAHA
-            await sendWhatsAppConfirmation(from, transaction);
-          }
-        }
+    const recurringRule = parseRecurringRule(textToProcess, from, receivedAt);
+    if (recurringRule) {
+      const rule = await storage.recurring.insert({
+        ...recurringRule,
+        category: resolveCategory(await loadTaxonomy(storage), recurringRule),
+      });
+      console.log('Recurring rule created:', rule);
+      await sendWhatsAppText(from, formatRecurringRuleCreated(rule));
+      return { outcome: 'handled', detail: 'recurring rule', text: textToProcess };
+    }
+
+    const accounts = await storage.accounts.list();
+    const transfer = parseTransfer(textToProcess, accounts);
+    if (transfer) {
+      const saved = await storage.transfers.insert({
+        ...transfer,
+        occurred_at: receivedAt.toISOString(),
+        whatsapp_from: from,
+      });
+      console.log('Transfer saved:', saved);
+      await sendWhatsAppText(from, formatTransferSaved(saved, accounts));
+      return { outcome: 'handled', detail: 'transfer', text: textToProcess };
+    }
+    // "dividir com Ana e Bruno" would otherwise be read as a second clause
+    split = isGroup ? parseSplit(textToProcess) : null;
+    transactions = await extractTransactions(split?.text || textToProcess, receivedAt);
+  }
+
+  if (transactions.length > 0) {
+    let debtors: string[] = [];
+    if (split && sender) {
+      const resolved = resolveSplitMembers(split, await storage.groups.listMembers(from), sender);
+      if (resolved.missing.length > 0) {
+        await sendWhatsAppText(
+          from,
+          `🤝 Não encontrei ${resolved.missing.join(', ')} no grupo. Cada pessoa precisa mandar ao menos uma mensagem aqui antes de entrar numa divisão.`
+        );
+        return { outcome: 'ignored', detail: `Unknown group members: ${resolved.missing.join(', ')}`, text: textToProcess, extracted: transactions };
       }
+      debtors = resolved.debtors;
     }
 
-    res.sendStatus(200);
+    const { rows, missingRates } = await toTransactionRows(transactions, receivedAt);
+    if (missingRates.length > 0) {
+      await sendWhatsAppText(
+        from,
+        `💱 Não há cotação de ${missingRates.join(', ')} cadastrada. Cadastre no painel, em Câmbio, e envie a mensagem de novo.`
+      );
+      return { outcome: 'ignored', detail: `No exchange rate for ${missingRates.join(', ')}`, text: textToProcess, extracted: transactions };
+    }
+    const ready = rows.map((row) => ({
+      ...row,
+      raw_text: textToProcess,
+      whatsapp_from: from,
+      attachment_url: attachmentUrl,
+      paid_by: sender,
+      inbound_message_id: inboundId,
+    }));
+
+    const review = reviewExtraction(transactions);
+    if (needsConfirmation(review, CONFIDENCE_THRESHOLD)) {
+      await holdForConfirmation({ whatsapp_from: from, sender, transactions: ready, split_with: debtors, ...review });
+      return { outcome: 'pending', text: textToProcess, extracted: transactions };
+    }
+    await saveTransactions(from, sender, ready, debtors);
+    return { outcome: 'saved', text: textToProcess, extracted: transactions };
+  }
+
+  const detail = isImage ? 'Not a receipt' : textToProcess ? 'Not a financial transaction' : 'No text to process';
+  return { outcome: 'ignored', detail, text: textToProcess, extracted: transactions };
+}
+
+/** Saves a chat's transactions, splits group expenses and confirms them with any budget alerts */
+async function saveTransactions(from: string, sender: string | null, rows: TransactionRow[], debtors: string[]) {
+  const saved = await insertTransactions(storage, rows);
+
+  console.log('Transactions saved:', saved);
+  // The transactions are in; a failure from here on must not fail the job and have them inserted again
+  let groupLines: string[] = [];
+  try {
+    if (sender) groupLines = await splitExpenses(from, sender, debtors, saved);
   } catch (error) {
-    console.error('Webhook error:', error);
-    res.sendStatus(500);
+    console.error('Split error:', error);
   }
-});
+  // The simulator has no chat to confirm to
+  if (!from.includes('@')) return saved;
+  // Later installments belong to later months, so only the first one counts now
+  const shown = firstInstallments(saved);
+
+  let budgetCheck = { lines: [] as string[], alerts: [] as string[] };
+  try {
+    budgetCheck = await checkBudgets(storage, shown);
+  } catch (error) {
+    console.error('Budget check error:', error);
+  }
+
+  // Optionally send a confirmation back via WAHA
+  const confirmationId = await sendWhatsAppConfirmation(from, saved, [...groupLines, ...budgetCheck.lines]);
+  if (confirmationId) {
+    await linkConfirmation(shown.map((row) => row.id), confirmationId);
+  }
+  for (const alert of budgetCheck.alerts) {
+    await sendWhatsAppText(from, alert);
+  }
+  return saved;
+}
+
+// Ambiguous extractions are only saved once the sender answers the question
+async function holdForConfirmation(pending: Omit<NewPendingConfirmation, 'expires_at'>) {
+  const held = await storage.pending.insert({
+    ...pending,
+    expires_at: new Date(Date.now() + PENDING_CONFIRMATION_MS).toISOString(),
+  });
+  console.log('Transactions held for confirmation:', held);
+  if (held.whatsapp_from.includes('@')) {
+    await askPendingQuestion(held);
+  }
+  return held;
+}
+
+async function askPendingQuestion(pending: PendingConfirmation) {
+  const questionId = await sendWhatsAppText(pending.whatsapp_from, formatPendingQuestion(pending));
+  if (questionId) {
+    await storage.pending.update(pending.id, { question_message_id: questionId });
+  }
+}
+
+// Resolving first means a second "1" or a click on the dashboard cannot save the same transactions again
+async function confirmPending(pending: PendingConfirmation) {
+  const resolved = await storage.pending.resolve(pending.id, 'confirmed', new Date().toISOString());
+  if (!resolved) return null;
+  let saved: Transaction[];
+  try {
+    saved = await saveTransactions(resolved.whatsapp_from, resolved.sender || null, resolved.transactions, resolved.split_with);
+  } catch (error) {
+    // Nothing was saved, so the confirmation can be answered again
+    await storage.pending.reopen(resolved.id);
+    throw error;
+  }
+  await settlePendingMessage(resolved, 'saved');
+  return saved;
+}
+
+// The message a confirmation was held for counts as saved once confirmed; an expired one goes to the inbox
+async function settlePendingMessage(pending: PendingConfirmation, outcome: MessageOutcome, detail: string | null = null) {
+  const messageId = pending.transactions[0]?.inbound_message_id;
+  if (!messageId) return;
+  try {
+    await storage.messages.update(messageId, { outcome, detail });
+  } catch (error) {
+    console.error('Storage error:', error);
+  }
+}
+
+/**
+ * Handles an answer to the chat's open confirmation: "1" saves, "2" discards
+ * and a correction such as "valor: 45" fills what was missing. Resolves to
+ * false when nothing waits for this sender or the text is not an answer, so
+ * it is handled as a new message.
+ */
+async function answerPendingConfirmation(from: string, sender: string | null, text: string, receivedAt: Date) {
+  const pending = await storage.pending.findOpen(from, new Date().toISOString());
+  // In a group only whoever sent the message can answer for it
+  if (!pending || (pending.sender && pending.sender !== sender)) return false;
+
+  const answer = parsePendingAnswer(text);
+  if (answer === 'cancel') {
+    const cancelled = await storage.pending.resolve(pending.id, 'cancelled', new Date().toISOString());
+    if (cancelled) {
+      await settlePendingMessage(cancelled, 'dismissed', 'Cancelled before saving');
+      await sendWhatsAppText(from, '🗑️ Cancelado, nada foi registrado.');
+    }
+    return true;
+  }
+  if (answer === 'confirm') {
+    if (hasMissingAmount(pending)) {
+      await sendWhatsAppText(from, `💰 Ainda falta o valor. Responda com ele, ex: "${pending.transactions.length > 1 ? '1 - ' : ''}valor: 45".`);
+      return true;
+    }
+    await confirmPending(pending);
+    return true;
+  }
+
+  const correction = parseCorrection(text, calendarDate(receivedAt));
+  if (!correction) return false;
+  if (correction.changes.category) {
+    const taxonomy = await loadTaxonomy(storage);
+    const category = findCategory(taxonomy, correction.changes.category);
+    if (!category) {
+      await sendWhatsAppText(from, `📂 Categoria desconhecida. Use uma destas: ${categoryNames(taxonomy).join(', ')}.`);
+      return true;
+    }
+    correction.changes.category = category.name;
+  }
+
+  const applied = applyPendingCorrection(pending, correction);
+  if (!applied) {
+    await sendWhatsAppText(from, `✏️ Essa mensagem tem ${pending.transactions.length} transações. Indique qual completar, ex: "2 - valor: 45".`);
+    return true;
+  }
+  const updated = await storage.pending.update(pending.id, applied);
+  if (updated) await askPendingQuestion(updated);
+  return true;
+}
+
+/** Records the shares of a group expense and describes them for the confirmation */
+async function splitExpenses(groupId: string, payerId: string, debtorIds: string[], saved: Transaction[]) {
+  const members = await storage.groups.listMembers(groupId);
+  const lines = [`👤 Pago por: ${memberName(members, payerId)}`];
+  const shares = buildShares(groupId, payerId, debtorIds, saved);
+  if (shares.length === 0) return lines;
+
+  await storage.groups.insertEntries(shares);
+  const owed = new Map<string, number>();
+  for (const share of shares) owed.set(share.debtor_id, addAmounts(owed.get(share.debtor_id) || 0, share.amount));
+  lines.push(...[...owed.entries()].map(([debtorId, amount]) => `➗ ${memberName(members, debtorId)} deve ${formatMoney(amount)}`));
+  return lines;
+}
+
+// Every extractor's categories are mapped onto the managed taxonomy before saving
+async function extractTransactions(text: string, receivedAt: Date): Promise<ExtractedTransaction[]> {
+  const taxonomy = await loadTaxonomy(storage);
+  const accountNames = (await storage.accounts.list()).map((account) => account.name);
+  const today = calendarDate(receivedAt);
+  const categorize = (transactions: ExtractedTransaction[]) =>
+    transactions.map((transaction) => ({ ...transaction, category: resolveCategory(taxonomy, transaction) }));
+
+  if (EXTRACTOR_MODE === 'rules-first') {
+    const parsed = parseMessageWithRules(text, today, accountNames);
+    if (parsed.length > 0) return categorize(parsed);
+  }
+
+  const extracted = await processMessageWithGemini(text, taxonomy, accountNames, receivedAt);
+  if (extracted) {
+    return categorize(extracted.map(({ installment_amount, ...transaction }) => ({
+      ...transaction,
+      // "10x de 300" is more reliably multiplied here than by the model
+      amount: isInstallmentCount(transaction.installments) && installment_amount > 0
+        ? Math.round(installment_amount * transaction.installments * 100) / 100
+        : transaction.amount,
+      extractor: 'gemini',
+    })));
+  }
+
+  if (EXTRACTOR_MODE === 'rules-first') return [];
+  console.log('Gemini unavailable, falling back to rule-based parser');
+  return categorize(parseMessageWithRules(text, today, accountNames));
+}
+
+/**
+ * Storage rows for extracted transactions: dated relative to the message,
+ * converted to the base currency with the rate in force on that day and
+ * attached to the account or card they mention.
+ * `missingRates` lists currencies with no rate at all, in which case nothing should be saved.
+ */
+async function toTransactionRows(transactions: ExtractedTransaction[], receivedAt: Date) {
+  const [rates, accounts] = await Promise.all([storage.exchangeRates.list(), storage.accounts.list()]);
+  const missingRates = new Set<string>();
+  const rows = transactions.map((transaction) => {
+    const occurredAt = occurredAtTimestamp(transaction.occurred_at, receivedAt);
+    const currency = String(transaction.currency || BASE_CURRENCY).toUpperCase();
+    const conversion = convertToBase(rates, transaction.amount, isCurrencyCode(currency) ? currency : BASE_CURRENCY, calendarDate(new Date(occurredAt)));
+    if (!conversion) missingRates.add(currency);
+    return {
+      type: transaction.type,
+      category: transaction.category,
+      description: transaction.description,
+      extractor: transaction.extractor,
+      occurred_at: occurredAt,
+      installments: isInstallmentCount(transaction.installments) ? transaction.installments : null,
+      merchant: transaction.merchant || null,
+      ...resolveAccount(accounts, transaction),
+      ...(conversion || { amount: transaction.amount }),
+    };
+  });
+  return { rows, missingRates: [...missingRates] };
+}
+
+// Resolves to null when Gemini is unconfigured or fails, and to [] when the message has no transaction
+async function processMessageWithGemini(
+  text: string,
+  taxonomy: Taxonomy,
+  accountNames: string[],
+  receivedAt: Date
+): Promise<ModelTransaction[] | null> {
+  if (!genAI) return null;
 
-async function processMessageWithGemini(text: string) {
   try {
     const response = await genAI.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `Analise a seguinte mensagem de texto sobre uma transação financeira e extraia os dados estruturados em JSON.
+      contents: `Analise a seguinte mensagem de texto sobre transações financeiras e extraia os dados estruturados em JSON.
       Mensagem: "${text}"
+      Enviada em: ${describeMessageDay(receivedAt)}
       
       Regras:
+      - Retorne uma lista com um item para cada transação mencionada (ex: "almocei por 35 e paguei 12 de Uber" são duas transações)
       - amount: número (valor da transação)
       - type: "income" (entrada) ou "expense" (saída)
-      - category: categoria (ex: alimentação, lazer, salário, etc.)
+      - category: uma das categorias permitidas, a mais específica que se aplicar
       - description: breve descrição
+      - currency: código ISO 4217 da moeda (ex: "USD" para "20 dólares", "EUR" para "15 euros"); use "BRL" quando não houver menção
+      - occurred_at: data em que a transação aconteceu, no formato AAAA-MM-DD. Resolva expressões como "ontem", "sexta passada" ou "dia 10" a partir da data de envio; sem menção de data, use a data de envio
+      - payment_method: forma de pagamento mencionada ("pix", "debit", "credit", "cash", "boleto" ou "transfer"); null se não houver menção
+      - installments: número de parcelas de uma compra parcelada (ex: 10 para "em 10x"); null se for à vista
+      - installment_amount: valor de cada parcela, quando a mensagem o informar (ex: 300 para "10x de 300"); null caso contrário
+      - Em compras parceladas, amount é o valor total da compra
+      - account: ${accountNames.length > 0 ? `a conta ou cartão mencionado, uma destas: ${accountNames.join(', ')}` : 'sempre null'}; null se não houver menção
+      - confidence: de 0 a 1, o quanto a mensagem deixa claro o valor, o tipo e a categoria; use menos de 0.5 quando precisar adivinhar (ex: "paguei o João" não diz quanto nem pelo quê)
+      - missing_fields: campos que a mensagem não informa e que você precisou adivinhar ("amount", "type", "category" ou "description"); sem valor na mensagem, use amount 0 e inclua "amount"
       
-      Se não for uma transação financeira, retorne null.`,
+      Se não houver nenhuma transação financeira, retorne uma lista vazia.`,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              amount: { type: Type.NUMBER },
+              type: { type: Type.STRING, enum: ['income', 'expense'] },
+              category: { type: Type.STRING, enum: categoryNames(taxonomy) },
+              description: { type: Type.STRING },
+              currency: { type: Type.STRING },
+              occurred_at: { type: Type.STRING, nullable: true },
+              payment_method: { type: Type.STRING, enum: PAYMENT_METHODS, nullable: true },
+              account: { type: Type.STRING, ...(accountNames.length > 0 ? { enum: accountNames } : {}), nullable: true },
+              installments: { type: Type.INTEGER, nullable: true },
+              installment_amount: { type: Type.NUMBER, nullable: true },
+              confidence: { type: Type.NUMBER },
+              missing_fields: { type: Type.ARRAY, items: { type: Type.STRING, enum: MISSING_FIELDS } },
+            },
+            required: ['amount', 'type', 'category', 'description', 'currency', 'confidence'],
+          },
+        },
+      },
+    });
+
+    const result = JSON.parse(response.text);
+    if (!Array.isArray(result)) return [];
+    const transactions = result.map(validateModelTransaction);
+    const valid = transactions.filter((transaction): transaction is ModelTransaction => transaction !== null);
+    if (valid.length < transactions.length) console.error('Gemini returned malformed transactions:', result);
+    // Nothing usable is a failed answer, for the fallback to try, not a message without transactions
+    return valid.length > 0 || result.length === 0 ? valid : null;
+  } catch (error) {
+    console.error('Gemini error:', error);
+    return null;
+  }
+}
+
+async function downloadWahaMedia(message: any, fallbackMimeType: string): Promise<{ data: string; mimeType: string } | null> {
+  const wahaUrl = process.env.WAHA_API_URL;
+  const wahaKey = process.env.WAHA_API_KEY;
+  const mediaUrl: string | undefined = message.media?.url || message.mediaUrl;
+
+  if (!mediaUrl) {
+    console.error('Media message without URL:', message.id);
+    return null;
+  }
+
+  // WAHA may return an absolute URL pointing to its own host, or a path relative to it
+  const url = /^https?:\/\//.test(mediaUrl) ? mediaUrl : `${wahaUrl}${mediaUrl}`;
+
+  try {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      headers: wahaKey ? { 'X-Api-Key': wahaKey } : {},
+      timeout: 15000,
+    });
+    const mimeType = (message.media?.mimetype || response.headers['content-type'] || fallbackMimeType).split(';')[0];
+    return { data: Buffer.from(response.data).toString('base64'), mimeType };
+  } catch (error) {
+    console.error('WAHA media download error:', error);
+    return null;
+  }
+}
+
+async function transcribeAudioWithGemini(data: string, mimeType: string) {
+  if (!genAI) return null;
+
+  try {
+    const response = await genAI.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data } },
+            { text: 'Transcreva este áudio em português do Brasil. Retorne apenas o texto falado, sem comentários.' },
+          ],
+        },
+      ],
+    });
+
+    return response.text?.trim() || null;
+  } catch (error) {
+    console.error('Gemini transcription error:', error);
+    return null;
+  }
+}
+
+/**
+ * Resolves to null when Gemini says the image is not a receipt; rejects when
+ * Gemini could not be asked, so the message is retried instead of dropped
+ */
+async function processImageWithGemini(
+  data: string,
+  mimeType: string,
+  caption: string,
+  taxonomy: Taxonomy,
+  receivedAt: Date
+): Promise<ModelTransaction | null> {
+  if (!genAI) throw new Error('GEMINI_API_KEY is not set');
+
+  try {
+    const response = await genAI.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data } },
+            {
+              text: `Analise a imagem de um comprovante financeiro (cupom fiscal, boleto, comprovante de Pix, nota fiscal) e extraia os dados estruturados em JSON.
+      ${caption ? `Legenda enviada pelo usuário: "${caption}"` : ''}
+      Enviada em: ${describeMessageDay(receivedAt)}
+
+      Regras:
+      - amount: número (valor total pago)
+      - currency: código ISO 4217 da moeda do comprovante; "BRL" se for em reais
+      - type: "income" (entrada) ou "expense" (saída)
+      - merchant: nome do estabelecimento ou favorecido
+      - category: uma das categorias permitidas, a mais específica que se aplicar
+      - description: breve descrição
+      - occurred_at: data da transação no formato AAAA-MM-DD, se visível no comprovante ou indicada na legenda
+      - payment_method: forma de pagamento ("pix", "debit", "credit", "cash", "boleto" ou "transfer"), se visível no comprovante
+      - confidence: de 0 a 1, o quanto a imagem deixa legível o valor e o tipo da transação
+      - missing_fields: campos que não estão legíveis e que você precisou adivinhar ("amount", "type", "category" ou "description")
+
+      Se a imagem não for um comprovante financeiro, retorne null.`,
+            },
+          ],
+        },
+      ],
       config: {
         responseMimeType: 'application/json',
         responseSchema: {
@@ -172,39 +1634,254 @@ async function processMessageWithGemini(text: string) {
           properties: {
             amount: { type: Type.NUMBER },
             type: { type: Type.STRING, enum: ['income', 'expense'] },
-            category: { type: Type.STRING },
+            merchant: { type: Type.STRING },
+            category: { type: Type.STRING, enum: categoryNames(taxonomy) },
             description: { type: Type.STRING },
+            currency: { type: Type.STRING },
+            occurred_at: { type: Type.STRING, nullable: true },
+            payment_method: { type: Type.STRING, enum: PAYMENT_METHODS, nullable: true },
+            confidence: { type: Type.NUMBER },
+            missing_fields: { type: Type.ARRAY, items: { type: Type.STRING, enum: MISSING_FIELDS } },
           },
-          required: ['amount', 'type', 'category', 'description'],
+          required: ['amount', 'type', 'merchant', 'category', 'description', 'currency', 'confidence'],
         },
       },
     });
 
-    return JSON.parse(response.text);
+    const result = JSON.parse(response.text);
+    if (result === null) return null;
+    const receipt = validateModelTransaction(result);
+    if (!receipt) throw new Error(`malformed receipt ${response.text}`);
+    return receipt;
+  } catch (error: any) {
+    console.error('Gemini image error:', error);
+    throw new Error(`Gemini could not read the image: ${error?.message || error}`);
+  }
+}
+
+// "2026-10-19 (segunda-feira), fuso America/Sao_Paulo", so the model can resolve relative dates
+function describeMessageDay(receivedAt: Date) {
+  const weekday = receivedAt.toLocaleDateString('pt-BR', { weekday: 'long', timeZone: getTimeZone() });
+  return `${calendarDate(receivedAt)} (${weekday}), fuso ${getTimeZone()}`;
+}
+
+// Random names, so one receipt's URL does not lead to the others. A failed upload fails the message,
+// which is retried and then shows up in the inbox, rather than saving the transaction without its photo
+async function uploadAttachment(data: string, mimeType: string) {
+  const extension = mimeType.split('/')[1] || 'bin';
+  const name = `${randomUUID()}.${extension}`;
+  return storage.attachments.save(Buffer.from(data, 'base64'), mimeType, name);
+}
+
+// Stored references become URLs the dashboard can load; signed ones expire
+async function withAttachmentUrl(transaction: Transaction): Promise<Transaction> {
+  if (!transaction.attachment_url) return transaction;
+  return { ...transaction, attachment_url: await storage.attachments.url(transaction.attachment_url) };
+}
+
+function formatRecurringRuleCreated(rule: RecurringRule) {
+  const typeLabel = rule.type === 'income' ? '✅ Entrada' : '🔻 Saída';
+  const next = nextOccurrence(rule);
+  return [
+    `🔁 ${typeLabel} recorrente criada!`,
+    `💰 Valor: ${formatMoney(rule.amount)}`,
+    `📂 Categoria: ${rule.category}`,
+    `📝 Descrição: ${rule.description}`,
+    `📅 Todo dia ${rule.day_of_month}${rule.end_date ? ` até ${formatDate(rule.end_date)}/${rule.end_date.slice(0, 4)}` : ''}`,
+    ...(next ? [`⏭️ Próximo lançamento: ${formatDate(next)}`] : []),
+  ].join('\n');
+}
+
+function formatTransferSaved(transfer: Transfer, accounts: Account[]) {
+  const name = (id: string | null) => accounts.find((account) => account.id === id)?.name || 'fora das contas';
+  return [
+    '🔄 Transferência registrada!',
+    `💰 Valor: ${formatMoney(transfer.amount)}`,
+    `📤 De: ${name(transfer.from_account_id)}`,
+    `📥 Para: ${name(transfer.to_account_id)}`,
+    `📅 Data: ${formatOccurredDate(transfer.occurred_at)}`,
+  ].join('\n');
+}
+
+// Remember which bot message confirmed which rows, so a quote-reply can correct them later
+async function linkConfirmation(transactionIds: string[], confirmationId: string) {
+  try {
+    await storage.transactions.updateMany(transactionIds, { confirmation_message_id: confirmationId });
   } catch (error) {
-    console.error('Gemini error:', error);
-    return null;
+    console.error('Storage error:', error);
+  }
+}
+
+async function applyCorrection(from: string, quotedId: string, text: string, receivedAt: Date) {
+  let data;
+  try {
+    data = await storage.transactions.list({ confirmationMessageId: quotedId, whatsappFrom: from, ascending: true });
+  } catch (error) {
+    console.error('Storage error:', error);
+    return false;
+  }
+  if (data.length === 0) return false;
+
+  const correction = parseCorrection(text, calendarDate(receivedAt));
+  if (!correction) {
+    await sendWhatsAppText(from, '✏️ Não entendi a correção. Exemplos: "na verdade foi 45", "categoria: transporte", "descrição: almoço", "data: ontem".');
+    return true;
+  }
+
+  let target = data[0];
+  if (data.length > 1) {
+    if (!correction.item || !data[correction.item - 1]) {
+      await sendWhatsAppText(from, `✏️ Essa mensagem tem ${data.length} transações. Indique qual corrigir, ex: "2 - na verdade foi 45".`);
+      return true;
+    }
+    target = data[correction.item - 1];
+  }
+
+  if (correction.changes.category) {
+    const taxonomy = await loadTaxonomy(storage);
+    const category = findCategory(taxonomy, correction.changes.category);
+    if (!category) {
+      await sendWhatsAppText(from, `📂 Categoria desconhecida. Use uma destas: ${categoryNames(taxonomy).join(', ')}.`);
+      return true;
+    }
+    correction.changes.category = category.name;
+  }
+  // Each installment has its own amount and month, so only what they share can be corrected at once
+  if (target.installment_purchase_id) {
+    if (correction.changes.amount !== undefined || correction.changes.occurred_at !== undefined) {
+      await sendWhatsAppText(from, '🗓️ Valor e data de uma compra parcelada não podem ser corrigidos. Envie "desfazer" e registre a compra de novo.');
+      return true;
+    }
+    try {
+      const installments = await storage.transactions.list({ installmentPurchaseId: target.installment_purchase_id });
+      await storage.transactions.updateMany(installments.map((t) => t.id), correction.changes);
+    } catch (error) {
+      console.error('Storage error:', error);
+    }
+  }
+
+  // A corrected amount is in the currency the transaction was made in
+  const changes: TransactionChanges = {
+    ...correction.changes,
+    ...(correction.changes.amount !== undefined ? amountChanges(target, correction.changes.amount) : {}),
+  };
+
+  let updated;
+  try {
+    updated = await storage.transactions.update(target.id, changes);
+  } catch (error) {
+    console.error('Storage error:', error);
   }
+  if (!updated) {
+    await sendWhatsAppText(from, '❌ Não foi possível corrigir a transação. Tente novamente.');
+    return true;
+  }
+
+  console.log('Transaction corrected:', updated);
+  const typeLabel = updated.type === 'income' ? '✅ Entrada' : '🔻 Saída';
+  await sendWhatsAppText(from, `✏️ ${typeLabel} corrigida!\n💰 Valor: ${formatTransactionAmount(updated)}\n📂 Categoria: ${updated.category}\n📝 Descrição: ${updated.description}\n📅 Data: ${formatOccurredDate(updated.occurred_at)}`);
+  return true;
+}
+
+// "18/10 (ontem)", so a misread relative date is obvious in the confirmation
+function formatOccurredDate(occurredAt: string) {
+  const day = calendarDate(new Date(occurredAt));
+  const age = daysBetween(day, calendarDate());
+  const year = day.slice(0, 4) === calendarDate().slice(0, 4) ? '' : `/${day.slice(0, 4)}`;
+  return `${formatDate(occurredAt)}${year}${age === 0 ? ' (hoje)' : age === 1 ? ' (ontem)' : ''}`;
+}
+
+// "Crédito · Nubank (fatura vence 10/11)", so a purchase on the wrong card or invoice is obvious
+function formatPayment(transaction: Transaction, accounts: Account[]) {
+  const account = accounts.find((a) => a.id === transaction.account_id);
+  const parts = [
+    transaction.payment_method ? PAYMENT_METHOD_LABELS[transaction.payment_method] : null,
+    account?.name,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+  if (account && isCard(account) && account.closing_day && account.due_day) {
+    const closing = invoiceClosingDate(account, calendarDate(new Date(transaction.occurred_at)));
+    return `${parts.join(' · ')} (fatura vence ${formatDate(invoiceDueDate(account, closing))})`;
+  }
+  return parts.join(' · ');
+}
+
+// "10x de R$ 300.00 (total R$ 3000.00)" for the first installment of a purchase, given every row saved with it
+function formatInstallments(transaction: Transaction, saved: Transaction[]) {
+  if (!transaction.installment_purchase_id) return null;
+  const installments = saved.filter((t) => t.installment_purchase_id === transaction.installment_purchase_id);
+  const total = addAmounts(...installments.map((t) => t.amount));
+  return `${transaction.installment_count}x de ${formatMoney(transaction.amount)} (total ${formatMoney(total)})`;
+}
+
+// Purchases in installments are confirmed once, through their first installment
+async function sendWhatsAppConfirmation(to: string, saved: Transaction[], footerLines: string[] = []) {
+  const transactions = firstInstallments(saved);
+  let accounts: Account[] = [];
+  try {
+    accounts = await storage.accounts.list();
+  } catch (error) {
+    console.error('Storage error:', error);
+  }
+  const payments = new Set(transactions.map((transaction) => formatPayment(transaction, accounts)));
+
+  let message: string;
+  if (transactions.length === 1) {
+    const [transaction] = transactions;
+    const typeLabel = transaction.type === 'income' ? '✅ Entrada' : '🔻 Saída';
+    message = `${typeLabel} registrada!\n💰 Valor: ${formatTransactionAmount(transaction)}\n📂 Categoria: ${transaction.category}\n📝 Descrição: ${transaction.description}\n📅 Data: ${formatOccurredDate(transaction.occurred_at)}`;
+    const [payment] = payments;
+    if (payment) message += `\n💳 Pagamento: ${payment}`;
+    const installments = formatInstallments(transaction, saved);
+    if (installments) message += `\n🗓️ Parcelas: ${installments}`;
+  } else {
+    // One date line when they all match, otherwise a date on each item
+    const days = new Set(transactions.map((transaction) => calendarDate(new Date(transaction.occurred_at))));
+    const lines = transactions.map((transaction) => {
+      const icon = transaction.type === 'income' ? '✅' : '🔻';
+      const date = days.size > 1 ? `${formatDate(transaction.occurred_at)} ` : '';
+      const installments = formatInstallments(transaction, saved);
+      return `${icon} ${date}${formatTransactionAmount(transaction)} · ${transaction.category} · ${transaction.description}${installments ? ` · ${installments}` : ''}`;
+    });
+    if (days.size === 1) lines.push(`📅 Data: ${formatOccurredDate(transactions[0].occurred_at)}`);
+    const [payment] = payments;
+    if (payments.size === 1 && payment) lines.push(`💳 Pagamento: ${payment}`);
+    // Income counts positive and expenses negative, so a mixed message nets out
+    const total = addAmounts(...transactions.map((transaction) => (transaction.type === 'income' ? transaction.amount : -transaction.amount)));
+    message = `${transactions.length} transações registradas!\n${lines.join('\n')}\n\n💰 Total: ${formatMoney(total)}`;
+  }
+
+  if (footerLines.length > 0) {
+    message += `\n\n${footerLines.join('\n')}`;
+  }
+
+  return sendWhatsAppText(to, message);
+}
+
+// Resolves to the id of the sent message, or null when WAHA is not configured or fails
+// WEBJS returns { id: { _serialized } }, NOWEB returns { key: { id } } or a plain id
+function wahaMessageId(data: any): string | null {
+  const candidates = [data?.id?._serialized, data?.id, data?.key?.id];
+  return candidates.find((id): id is string => typeof id === 'string' && id.length > 0) || null;
 }
 
-async function sendWhatsAppConfirmation(to: string, transaction: any) {
+async function sendWhatsAppText(to: string, text: string): Promise<string | null> {
   const wahaUrl = process.env.WAHA_API_URL;
   const wahaKey = process.env.WAHA_API_KEY;
 
-  if (!wahaUrl) return;
-
-  const typeLabel = transaction.type === 'income' ? '✅ Entrada' : '🔻 Saída';
-  const message = `${typeLabel} registrada!\n💰 Valor: R$ ${transaction.amount.toFixed(2)}\n📂 Categoria: ${transaction.category}\n📝 Descrição: ${transaction.description}`;
+  if (!wahaUrl) return null;
 
   try {
-    await axios.post(`${wahaUrl}/api/sendText`, {
+    const response = await axios.post(`${wahaUrl}/api/sendText`, {
       chatId: to,
-      text: message,
+      text,
     }, {
       headers: wahaKey ? { 'X-Api-Key': wahaKey } : {},
     });
+    return wahaMessageId(response.data);
   } catch (error) {
     console.error('WAHA send error:', error);
+    return null;
   }
 }
 
@@ -223,6 +1900,27 @@ async function startServer() {
     });
   }
 
+  worker = await startJobWorker(storage.jobs, (job) => processQueuedMessage(job.message_id, job.payload), {
+    retentionMs: JOB_RETENTION_MS,
+  });
+  startReportScheduler(storage, async (report) => {
+    // Reports for the simulator or dashboard have no chat to go to
+    if (!report.whatsapp_from.includes('@')) return false;
+    return !!(await sendWhatsAppText(report.whatsapp_from, renderReportText(report.summary)));
+  });
+  startPendingExpiry(storage, async (pending) => {
+    await settlePendingMessage(pending, 'ignored', 'Confirmation expired');
+    if (pending.whatsapp_from.includes('@')) {
+      await sendWhatsAppText(pending.whatsapp_from, formatPendingExpired(pending));
+    }
+  });
+  startRecurringScheduler(storage, async (rule, transactions) => {
+    // Only rules created over WhatsApp have a chat to notify
+    if (rule.whatsapp_from?.includes('@')) {
+      await sendWhatsAppConfirmation(rule.whatsapp_from, transactions);
+    }
+  });
+
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
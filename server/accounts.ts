@@ -0,0 +1,198 @@
+import { Account, AccountBalance, Invoice, PaymentMethod, Transaction, Transfer } from '../src/types';
+import { calendarDate, daysInMonth, toCalendarDate } from './dates';
+import { addAmounts, sumAmounts } from './money';
+import { findAccountName, findAmount } from './parser';
+import { NewTransfer, Storage } from './storage';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['pix', 'debit', 'credit', 'cash', 'boleto', 'transfer'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  debit: 'Débito',
+  credit: 'Crédito',
+  cash: 'Dinheiro',
+  boleto: 'Boleto',
+  transfer: 'Transferência',
+};
+
+export function isCard(account: Pick<Account, 'kind'>) {
+  return account.kind === 'credit_card';
+}
+
+/**
+ * Account and payment method of an extracted transaction: the account it
+ * names, or the only credit card when it just says "no cartão". A purchase on
+ * a card is always on credit.
+ */
+export function resolveAccount(accounts: Account[], transaction: { account?: string | null; payment_method?: PaymentMethod | null }) {
+  const named = transaction.account ? findAccountName(transaction.account, accounts.map((a) => a.name)) : null;
+  let account = named ? accounts.find((a) => a.name === named.name) || null : null;
+  if (!account && transaction.payment_method === 'credit') {
+    const cards = accounts.filter(isCard);
+    if (cards.length === 1) account = cards[0];
+  }
+  const method = account && isCard(account) ? 'credit' : transaction.payment_method || null;
+  return { account_id: account?.id || null, payment_method: PAYMENT_METHODS.includes(method) ? method : null };
+}
+
+function monthDay(year: number, month: number, day: number) {
+  return toCalendarDate(year, month, Math.min(day, daysInMonth(year, month)));
+}
+
+function nextMonth(year: number, month: number) {
+  return month === 12 ? [year + 1, 1] : [year, month + 1];
+}
+
+/** Closing date of the invoice a card purchase on `date` (YYYY-MM-DD) lands on */
+export function invoiceClosingDate(card: Pick<Account, 'closing_day'>, date: string) {
+  const [year, month] = date.split('-').map(Number);
+  const closing = monthDay(year, month, card.closing_day);
+  // Purchases on the closing day itself already go to the next invoice
+  if (date < closing) return closing;
+  const [nextYear, next] = nextMonth(year, month);
+  return monthDay(nextYear, next, card.closing_day);
+}
+
+/** Due date of the invoice closing on `closingDate`: later that month, or in the next one when the due day comes first */
+export function invoiceDueDate(card: Pick<Account, 'closing_day' | 'due_day'>, closingDate: string) {
+  const [year, month] = closingDate.split('-').map(Number);
+  if (card.due_day > card.closing_day) return monthDay(year, month, card.due_day);
+  const [nextYear, next] = nextMonth(year, month);
+  return monthDay(nextYear, next, card.due_day);
+}
+
+function signedAmount(transaction: Transaction) {
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+}
+
+/**
+ * Balance of every account up to `now`, plus the net of transactions that
+ * belong to no account (recorded before accounts existed, or without one).
+ */
+export async function getAccountBalances(storage: Storage, now = new Date()) {
+  const [accounts, transactions, transfers] = await Promise.all([
+    storage.accounts.list(),
+    storage.transactions.list({ until: now.toISOString() }),
+    storage.transfers.list({ until: now.toISOString() }),
+  ]);
+
+  const movements = new Map<string | null, number[]>();
+  const add = (accountId: string | null, amount: number) => movements.set(accountId, [...(movements.get(accountId) || []), amount]);
+  for (const t of transactions) add(t.account_id || null, signedAmount(t));
+  for (const transfer of transfers) {
+    add(transfer.from_account_id, -transfer.amount);
+    add(transfer.to_account_id, transfer.amount);
+  }
+
+  const balances: AccountBalance[] = accounts.map((account) => ({
+    ...account,
+    balance: addAmounts(account.opening_balance, sumAmounts(movements.get(account.id) || [])),
+  }));
+  return { accounts: balances, unassigned: sumAmounts(movements.get(null) || []) };
+}
+
+/** Money in hand: every account but credit cards, plus transactions with no account */
+export async function getCurrentBalance(storage: Storage, now = new Date()) {
+  const { accounts, unassigned } = await getAccountBalances(storage, now);
+  return addAmounts(unassigned, ...accounts.filter((account) => !isCard(account)).map((account) => account.balance));
+}
+
+/**
+ * Invoices of a card from its first purchase on. Payments (transfers into the
+ * card) settle the oldest invoices first, after the opening debt.
+ */
+export function buildInvoices(card: Account, transactions: Transaction[], transfers: Transfer[], today = calendarDate()): Invoice[] {
+  const totals = new Map<string, number>();
+  for (const t of transactions) {
+    const closing = invoiceClosingDate(card, calendarDate(new Date(t.occurred_at)));
+    // Refunds come off the invoice they land on
+    totals.set(closing, addAmounts(totals.get(closing) || 0, -signedAmount(t)));
+  }
+
+  const payments = transfers.map((transfer) => (transfer.to_account_id === card.id ? transfer.amount : -transfer.amount));
+  // A negative opening balance is debt that payments cover before any invoice
+  let available = addAmounts(sumAmounts(payments), card.opening_balance);
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([closing, total]) => {
+      const paid = Math.max(0, Math.min(total, available));
+      available = addAmounts(available, -paid);
+      const status: Invoice['status'] = closing > today ? 'open' : paid >= total ? 'paid' : 'closed';
+      return {
+        account_id: card.id,
+        account_name: card.name,
+        closing_date: closing,
+        due_date: invoiceDueDate(card, closing),
+        total,
+        paid,
+        status,
+      };
+    });
+}
+
+/** Invoices still to pay on every card: the open ones and those closed but not fully paid, soonest due first */
+export async function getUpcomingInvoices(storage: Storage, today = calendarDate()) {
+  const cards = (await storage.accounts.list()).filter((account) => isCard(account) && account.closing_day && account.due_day);
+  const invoices = await Promise.all(
+    cards.map(async (card) => {
+      const [transactions, transfers] = await Promise.all([
+        storage.transactions.list({ accountId: card.id, ascending: true }),
+        storage.transfers.list({ accountId: card.id }),
+      ]);
+      return buildInvoices(card, transactions, transfers, today);
+    })
+  );
+  return invoices
+    .flat()
+    .filter((invoice) => invoice.paid < invoice.total)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
+
+const TRANSFER_VERBS = /\b(?:transferi|transfere|mandei|passei|movi|enviei)\b/i;
+const INVOICE_PAYMENT = /\bpaguei\s+(?:a\s+)?fatura\b/i;
+
+/**
+ * Parses "transferi 500 do Itaú para o Nubank" or "paguei a fatura do Nubank
+ * 1200 com o Itaú" into a transfer. Returns null unless the message names the
+ * accounts involved (an invoice payment needs only the card), so other
+ * messages still go to the extractor.
+ */
+export function parseTransfer(text: string, accounts: Account[]): NewTransfer | null {
+  const isInvoicePayment = INVOICE_PAYMENT.test(text);
+  if (!isInvoicePayment && !TRANSFER_VERBS.test(text)) return null;
+
+  const names = accounts.map((account) => account.name);
+  const byName = (name: string | undefined) => accounts.find((account) => account.name === name) || null;
+
+  let from: Account | null = null;
+  let to: Account | null = null;
+  if (isInvoicePayment) {
+    // "fatura do Nubank" is the card; any other account named pays it
+    const card = findAccountName(text, accounts.filter(isCard).map((card) => card.name));
+    to = byName(card?.name);
+    if (!card || !to) return null;
+    // Cut out the text that matched, since the name itself may hold regex characters such as "("
+    const rest = text.replace(card.text, ' ');
+    from = byName(findAccountName(rest, names.filter((name) => name !== to.name))?.name);
+    // With a single bank account there is no doubt about where the money came from
+    const banks = accounts.filter((account) => !isCard(account));
+    if (!from && banks.length === 1) from = banks[0];
+  } else {
+    const split = text.match(/^(.*?)\s(?:para|pra|pro|p\/)\s(.*)$/i);
+    if (!split) return null;
+    from = byName(findAccountName(split[1], names)?.name);
+    to = byName(findAccountName(split[2], names)?.name);
+    if (!from || !to || from.id === to.id) return null;
+  }
+
+  const amount = findAmount(text.replace(/\b\d{1,2}\/\d{1,2}\b/g, ' '));
+  if (!amount) return null;
+
+  return {
+    from_account_id: from?.id || null,
+    to_account_id: to.id,
+    amount,
+    description: isInvoicePayment ? `Fatura ${to.name}` : `${from.name} → ${to.name}`,
+  };
+}
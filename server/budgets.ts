@@ -0,0 +1,68 @@
+import { BudgetStatus, Transaction } from '../src/types';
+import { periodBounds, periodOf } from './dates';
+import { formatMoney } from './format';
+import { addAmounts } from './money';
+import { Storage } from './storage';
+
+export const BUDGET_WARNING_PERCENTAGE = 80;
+
+function categoryKey(category: string) {
+  return category.trim().toLowerCase();
+}
+
+/** Month-to-date spend for every budget */
+export async function getBudgetStatuses(storage: Storage, now = new Date()): Promise<BudgetStatus[]> {
+  const [budgets, transactions] = await Promise.all([
+    storage.budgets.list(),
+    storage.transactions.list({ since: periodBounds(periodOf(now)).since, until: now.toISOString() }),
+  ]);
+
+  const spentByCategory = new Map<string, number>();
+  for (const t of transactions.filter((t) => t.type === 'expense')) {
+    const key = categoryKey(t.category);
+    spentByCategory.set(key, addAmounts(spentByCategory.get(key) || 0, t.amount));
+  }
+
+  return budgets.map((budget) => {
+    const spent = spentByCategory.get(categoryKey(budget.category)) || 0;
+    return { ...budget, spent, percentage: (spent / budget.monthly_limit) * 100 };
+  });
+}
+
+/**
+ * Budget usage for the categories of freshly saved expenses. `lines` go into
+ * the confirmation; `alerts` are sent separately for budgets these expenses
+ * pushed over the limit.
+ */
+export async function checkBudgets(storage: Storage, saved: Transaction[]) {
+  const lines: string[] = [];
+  const alerts: string[] = [];
+
+  const addedByCategory = new Map<string, number>();
+  for (const t of saved.filter((t) => t.type === 'expense')) {
+    const key = categoryKey(t.category);
+    addedByCategory.set(key, addAmounts(addedByCategory.get(key) || 0, t.amount));
+  }
+  if (addedByCategory.size === 0) return { lines, alerts };
+
+  const statuses = await getBudgetStatuses(storage);
+  for (const status of statuses) {
+    const added = addedByCategory.get(categoryKey(status.category));
+    if (added === undefined) continue;
+
+    const percentage = Math.round(status.percentage);
+    const icon = percentage >= BUDGET_WARNING_PERCENTAGE ? '⚠️' : '📊';
+    lines.push(`${icon} ${percentage}% do orçamento de ${status.category} usado`);
+
+    const spentBefore = addAmounts(status.spent, -added);
+    if (spentBefore <= status.monthly_limit && status.spent > status.monthly_limit) {
+      alerts.push(
+        `🚨 *Orçamento de ${status.category} estourado!*\n` +
+          `Gasto no mês: ${formatMoney(status.spent)} de ${formatMoney(status.monthly_limit)} ` +
+          `(${formatMoney(status.spent - status.monthly_limit)} acima do limite).`
+      );
+    }
+  }
+
+  return { lines, alerts };
+}
@@ -0,0 +1,71 @@
+import { Category, MerchantRule } from '../src/types';
+import { suggestCategory } from './parser';
+import { Storage } from './storage';
+
+/** Where anything unrecognized ends up; these cannot be deleted */
+export const FALLBACK_CATEGORIES = { expense: 'outros', income: 'outras receitas' };
+
+export interface Taxonomy {
+  categories: Category[];
+  rules: MerchantRule[];
+}
+
+export function normalizeCategoryKey(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export async function loadTaxonomy(storage: Storage): Promise<Taxonomy> {
+  const [categories, rules] = await Promise.all([storage.categories.list(), storage.merchantRules.list()]);
+  return { categories, rules };
+}
+
+/** The managed category with this name, ignoring case and accents */
+export function findCategory(taxonomy: Taxonomy, name: string | null | undefined) {
+  if (!name) return null;
+  const key = normalizeCategoryKey(name);
+  return taxonomy.categories.find((category) => normalizeCategoryKey(category.name) === key) || null;
+}
+
+/** The longest rule pattern contained in the description, so "uber eats" beats "uber" */
+export function matchMerchantRule(rules: MerchantRule[], description: string) {
+  const text = normalizeCategoryKey(description);
+  return rules
+    .filter((rule) => rule.pattern && text.includes(rule.pattern))
+    .sort((a, b) => b.pattern.length - a.pattern.length)[0] || null;
+}
+
+/**
+ * Maps whatever category an extractor produced onto the managed list: a
+ * merchant rule wins over the model, then an exact match, then the keyword
+ * table on the category and the description, and finally the fallback
+ * category for the type.
+ */
+export function resolveCategory(
+  taxonomy: Taxonomy,
+  transaction: { category?: string | null; description: string; type: 'income' | 'expense' }
+) {
+  const rule = matchMerchantRule(taxonomy.rules, transaction.description);
+  const candidates = [
+    rule?.category,
+    transaction.category,
+    // Free text such as "comida" or "restaurante" still lands on the canonical name
+    transaction.category ? suggestCategory(transaction.category) : null,
+    suggestCategory(transaction.description),
+  ];
+
+  for (const candidate of candidates) {
+    const category = findCategory(taxonomy, candidate);
+    if (category) return category.name;
+  }
+  return FALLBACK_CATEGORIES[transaction.type];
+}
+
+/** Names the Gemini schemas may return, subcategories included */
+export function categoryNames(taxonomy: Taxonomy) {
+  return taxonomy.categories.map((category) => category.name);
+}
@@ -0,0 +1,228 @@
+import { BUDGET_WARNING_PERCENTAGE, getBudgetStatuses } from './budgets';
+import { categoryNames, findCategory, loadTaxonomy } from './categories';
+import { formatDate, formatMoney, formatTransactionAmount } from './format';
+import { addAmounts, sumAmounts } from './money';
+import { formatGroupDebts, getGroupDebts, isGroupChat } from './groups';
+import { removeInstallmentPurchase } from './installments';
+import { parseBrazilianAmount } from './parser';
+import { nextOccurrence } from './recurring';
+import { buildMonthlyReport, renderReportText } from './reports';
+import { formatPeriod, periodBounds, periodOf, shiftPeriod } from './dates';
+import { Storage, TransactionRepository } from './storage';
+
+export type Command =
+  | { name: 'ajuda' }
+  | { name: 'saldo' }
+  | { name: 'extrato'; days: number }
+  | { name: 'desfazer' }
+  | { name: 'resumo' }
+  | { name: 'orcamento'; category: string; limit: number }
+  | { name: 'orcamentos' }
+  | { name: 'recorrentes' }
+  | { name: 'relatorio' }
+  | { name: 'quem_deve' };
+
+const DEFAULT_STATEMENT_DAYS = 7;
+const MAX_STATEMENT_ITEMS = 20;
+
+function normalize(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+// Commands must match the whole message, so "saldo de 50 da conta" still goes to the extractor
+export function parseCommand(text: string): Command | null {
+  const normalized = normalize(text).replace(/^[/!]/, '');
+
+  if (/^(ajuda|help|menu|comandos)$/.test(normalized)) return { name: 'ajuda' };
+  if (/^saldo$/.test(normalized)) return { name: 'saldo' };
+  if (/^desfazer$/.test(normalized)) return { name: 'desfazer' };
+  if (/^resumo( (do )?mes)?$/.test(normalized)) return { name: 'resumo' };
+
+  if (/^orcamentos?$/.test(normalized)) return { name: 'orcamentos' };
+  if (/^recorrentes?$/.test(normalized)) return { name: 'recorrentes' };
+  if (/^relatorio( (do )?mes passado)?$/.test(normalized)) return { name: 'relatorio' };
+  if (/^(quem deve (a )?quem|acertos?)\??$/.test(normalized)) return { name: 'quem_deve' };
+
+  // Parsed from the original text so the category keeps its accents ("alimentação")
+  const budget = text.trim().match(/^[/!]?or[cç]amento\s+(.+?)\s*[:=-]?\s*(?:r\$\s*)?(\d[\d.,]*)(?:\s*reais)?$/i);
+  if (budget) {
+    const limit = parseBrazilianAmount(budget[2]);
+    if (limit !== null) return { name: 'orcamento', category: budget[1].trim().toLowerCase(), limit };
+  }
+
+  const statement = normalized.match(/^extrato(?: (\d{1,3}) ?d(?:ias?)?)?$/);
+  if (statement) {
+    const days = statement[1] ? parseInt(statement[1], 10) : DEFAULT_STATEMENT_DAYS;
+    return { name: 'extrato', days: Math.max(1, days) };
+  }
+
+  return null;
+}
+
+/** `sender` is the participant who sent the command in a group chat */
+export async function runCommand(storage: Storage, command: Command, from: string, sender: string | null = null): Promise<string> {
+  const { transactions } = storage;
+
+  switch (command.name) {
+    case 'ajuda':
+      return helpMessage();
+    case 'saldo':
+      return balanceMessage(transactions, from);
+    case 'extrato':
+      return statementMessage(transactions, from, command.days);
+    case 'desfazer':
+      return undoMessage(storage, from, sender);
+    case 'resumo':
+      return monthlySummaryMessage(transactions, from);
+    case 'orcamento':
+      return setBudgetMessage(storage, command.category, command.limit);
+    case 'orcamentos':
+      return budgetsMessage(storage);
+    case 'recorrentes':
+      return recurringMessage(storage, from);
+    case 'relatorio':
+      return renderReportText(await buildMonthlyReport(storage, from, shiftPeriod(periodOf(), -1)));
+    case 'quem_deve':
+      if (!isGroupChat(from)) return '🤝 Esse comando funciona em grupos: lá cada um registra o que pagou e quem deve quem.';
+      return formatGroupDebts(await getGroupDebts(storage, from));
+  }
+}
+
+function totals(rows: { amount: number; type: string }[]) {
+  const income = sumAmounts(rows.filter((t) => t.type === 'income').map((t) => t.amount));
+  const expenses = sumAmounts(rows.filter((t) => t.type === 'expense').map((t) => t.amount));
+  return { income, expenses, balance: addAmounts(income, -expenses) };
+}
+
+function helpMessage() {
+  return [
+    '🤖 *Comandos disponíveis*',
+    '',
+    '• *saldo* — entradas, saídas e saldo total',
+    '• *extrato 7d* — transações dos últimos dias (ex: extrato 30d)',
+    '• *resumo mês* — resumo do mês atual por categoria',
+    '• *relatório* — relatório completo do mês passado',
+    '• *desfazer* — apaga a última transação registrada (em grupos, a última que você registrou)',
+    '• *orçamento alimentação 1200* — define o limite mensal de uma categoria',
+    '• *orçamentos* — mostra quanto de cada orçamento já foi usado',
+    '• *todo dia 10 pago 200 de condomínio* — cria um lançamento recorrente',
+    '• *recorrentes* — lista os lançamentos recorrentes',
+    '• *transferi 500 do Itaú para o Nubank* — registra uma transferência entre contas',
+    '• *paguei 120 do mercado, dividir com Ana* — em grupos, divide a despesa',
+    '• *quem deve quem* — em grupos, mostra os saldos entre os membros',
+    '• *ajuda* — mostra esta mensagem',
+    '',
+    'Para registrar, é só escrever ou mandar um áudio: "gastei 30 no mercado".',
+  ].join('\n');
+}
+
+async function balanceMessage(transactions: TransactionRepository, from: string) {
+  // Installments still to come are not money spent yet
+  const { income, expenses, balance } = totals(await transactions.list({ whatsappFrom: from, until: new Date().toISOString() }));
+  return `💼 *Saldo*\n✅ Entradas: ${formatMoney(income)}\n🔻 Saídas: ${formatMoney(expenses)}\n💰 Saldo: ${formatMoney(balance)}`;
+}
+
+async function statementMessage(transactions: TransactionRepository, from: string, days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const data = await transactions.list({ whatsappFrom: from, since, until: new Date().toISOString() });
+  if (data.length === 0) return `📄 Nenhuma transação nos últimos ${days} dias.`;
+
+  const lines = data.slice(0, MAX_STATEMENT_ITEMS).map((t) => {
+    const icon = t.type === 'income' ? '✅' : '🔻';
+    return `${formatDate(t.occurred_at)} ${icon} ${formatTransactionAmount(t)} · ${t.description}`;
+  });
+  if (data.length > MAX_STATEMENT_ITEMS) {
+    lines.push(`… e mais ${data.length - MAX_STATEMENT_ITEMS} transações`);
+  }
+
+  const { income, expenses, balance } = totals(data);
+  return `📄 *Extrato (${days} dias)*\n${lines.join('\n')}\n\n✅ ${formatMoney(income)}  🔻 ${formatMoney(expenses)}  💰 ${formatMoney(balance)}`;
+}
+
+// In a group only the sender's own entries can be undone, never what someone else just recorded
+async function undoMessage(storage: Storage, from: string, sender: string | null) {
+  if (isGroupChat(from) && !sender) return '🤷 Não consegui identificar quem enviou o comando.';
+  const [last] = await storage.transactions.list({
+    whatsappFrom: from,
+    ...(sender ? { paidBy: sender } : {}),
+    orderBy: 'created_at',
+    limit: 1,
+  });
+  if (!last) return '🤷 Nenhuma transação para desfazer.';
+
+  // A purchase in installments is undone whole
+  if (last.installment_purchase_id) {
+    const installments = await removeInstallmentPurchase(storage, last.installment_purchase_id);
+    return `↩️ Compra parcelada removida: ${installments.length}x · ${formatMoney(sumAmounts(installments.map((t) => t.amount)))} · ${last.description}`;
+  }
+
+  await storage.transactions.remove(last.id);
+  await storage.groups.removeEntriesForTransactions([last.id]);
+
+  const typeLabel = last.type === 'income' ? 'Entrada' : 'Saída';
+  return `↩️ ${typeLabel} removida: ${formatMoney(last.amount)} · ${last.description}`;
+}
+
+async function monthlySummaryMessage(transactions: TransactionRepository, from: string) {
+  const now = new Date();
+  const period = periodOf(now);
+  const { since } = periodBounds(period);
+  const data = await transactions.list({ whatsappFrom: from, since, until: now.toISOString() });
+
+  const monthLabel = formatPeriod(period);
+  if (data.length === 0) return `📊 Nenhuma transação em ${monthLabel}.`;
+
+  const byCategory = new Map<string, number>();
+  for (const t of data.filter((t) => t.type === 'expense')) {
+    byCategory.set(t.category, addAmounts(byCategory.get(t.category) || 0, t.amount));
+  }
+  const categoryLines = [...byCategory.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, value]) => `• ${category}: ${formatMoney(value)}`);
+
+  const { income, expenses, balance } = totals(data);
+  return [
+    `📊 *Resumo de ${monthLabel}*`,
+    `✅ Entradas: ${formatMoney(income)}`,
+    `🔻 Saídas: ${formatMoney(expenses)}`,
+    `💰 Saldo: ${formatMoney(balance)}`,
+    ...(categoryLines.length > 0 ? ['', '📂 *Gastos por categoria*', ...categoryLines] : []),
+  ].join('\n');
+}
+
+async function setBudgetMessage(storage: Storage, category: string, limit: number) {
+  const taxonomy = await loadTaxonomy(storage);
+  const known = findCategory(taxonomy, category);
+  if (!known) return `📂 Categoria desconhecida. Use uma destas: ${categoryNames(taxonomy).join(', ')}.`;
+
+  const budget = await storage.budgets.upsert(known.name, limit);
+  return `🎯 Orçamento de ${budget.category} definido: ${formatMoney(budget.monthly_limit)} por mês.`;
+}
+
+async function budgetsMessage(storage: Storage) {
+  const statuses = await getBudgetStatuses(storage);
+  if (statuses.length === 0) return '🎯 Nenhum orçamento definido. Ex: "orçamento alimentação 1200".';
+
+  const lines = statuses.map((status) => {
+    const icon = status.percentage > 100 ? '🚨' : status.percentage >= BUDGET_WARNING_PERCENTAGE ? '⚠️' : '✅';
+    return `${icon} ${status.category}: ${formatMoney(status.spent)} de ${formatMoney(status.monthly_limit)} (${Math.round(status.percentage)}%)`;
+  });
+  return `🎯 *Orçamentos do mês*\n${lines.join('\n')}`;
+}
+
+async function recurringMessage(storage: Storage, from: string) {
+  const rules = (await storage.recurring.list()).filter((rule) => rule.whatsapp_from === from);
+  if (rules.length === 0) return '🔁 Nenhum lançamento recorrente. Ex: "todo dia 10 pago 200 de condomínio".';
+
+  const lines = rules.map((rule) => {
+    const icon = rule.type === 'income' ? '✅' : '🔻';
+    const next = nextOccurrence(rule);
+    return `${icon} Dia ${rule.day_of_month}: ${formatMoney(rule.amount)} · ${rule.description}${next ? ` (próximo ${formatDate(next)})` : ' (encerrado)'}`;
+  });
+  return `🔁 *Lançamentos recorrentes*\n${lines.join('\n')}`;
+}
@@ -0,0 +1,79 @@
+import { calendarDate, calendarDateToTimestamp } from './dates';
+import { parseBrazilianAmount, parseRelativeDate } from './parser';
+
+export interface Correction {
+  item?: number;
+  changes: {
+    amount?: number;
+    type?: 'income' | 'expense';
+    category?: string;
+    description?: string;
+    occurred_at?: string;
+  };
+}
+
+function parseType(value: string): 'income' | 'expense' | undefined {
+  if (/^(entrada|receita|ganho)$/.test(value)) return 'income';
+  if (/^(sa[ií]da|despesa|gasto)$/.test(value)) return 'expense';
+  return undefined;
+}
+
+/**
+ * Parses a quote-reply to a confirmation such as "na verdade foi 45",
+ * "categoria: transporte", "data: ontem" or "2 - descrição: almoço". Returns
+ * null when the text does not look like a correction, so it can be handled as
+ * a new message. Relative dates are resolved against `today`.
+ */
+export function parseCorrection(text: string, today = calendarDate()): Correction | null {
+  let body = text.trim();
+  const correction: Correction = { changes: {} };
+
+  const item = body.match(/^(\d{1,2})\s*[-:).]\s+(.+)$/s);
+  if (item) {
+    correction.item = parseInt(item[1], 10);
+    body = item[2];
+  }
+
+  for (const clause of body.split(/[\n;]+/).map((c) => c.trim()).filter(Boolean)) {
+    const lower = clause.toLowerCase().replace(/^na verdade,?\s*/, '');
+
+    const category = lower.match(/^categoria\s*[:=-]?\s*(.+)$/);
+    if (category) {
+      correction.changes.category = category[1].trim();
+      continue;
+    }
+
+    const description = clause.match(/^(?:na verdade,?\s*)?descri[cç][aã]o\s*[:=-]?\s*(.+)$/i);
+    if (description) {
+      correction.changes.description = description[1].trim();
+      continue;
+    }
+
+    // The whole clause must be the date, so "foi 45 ontem" is not half understood
+    const dateText = lower.replace(/^(?:data\s*[:=-]?|(?:foi|era)\s+)\s*/, '');
+    const date = parseRelativeDate(dateText, today);
+    if (date && date.text.trim() === dateText.trim()) {
+      correction.changes.occurred_at = calendarDateToTimestamp(date.date);
+      continue;
+    }
+
+    const type = lower.match(/^(?:tipo\s*[:=-]?|(?:era|é|e|foi)\s+(?:uma\s+)?)\s*(\S+)$/);
+    if (type && parseType(type[1])) {
+      correction.changes.type = parseType(type[1]);
+      continue;
+    }
+
+    const amount = lower.match(/^(?:valor\s*[:=-]?|(?:era|foi|é|e)\s+(?:de\s+)?)?\s*(?:r\$\s*)?(\d[\d.,]*)(?:\s*reais)?$/);
+    if (amount) {
+      const value = parseBrazilianAmount(amount[1]);
+      if (value !== null) {
+        correction.changes.amount = value;
+        continue;
+      }
+    }
+
+    return null;
+  }
+
+  return Object.keys(correction.changes).length > 0 ? correction : null;
+}
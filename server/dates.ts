@@ -0,0 +1,116 @@
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+/** IANA zone days, months and reports are counted in: APP_TIMEZONE, Brasília by default */
+export function getTimeZone() {
+  return process.env.APP_TIMEZONE || DEFAULT_TIMEZONE;
+}
+
+const offsetFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** Minutes the zone is ahead of UTC at `time`, negative west of Greenwich */
+export function zoneOffsetMinutes(time: number, timeZone = getTimeZone()) {
+  let format = offsetFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' });
+    offsetFormats.set(timeZone, format);
+  }
+  // "GMT-03:00", or just "GMT" for UTC
+  const name = format.formatToParts(time).find((part) => part.type === 'timeZoneName')?.value || '';
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/** UTC milliseconds of a wall-clock `time` on `date` in the configured zone */
+function zonedTime(date: string, time: string) {
+  const wall = new Date(`${date}T${time}Z`).getTime();
+  // The offset is read at the estimated instant, which gets days with a DST change right
+  return wall - zoneOffsetMinutes(wall - zoneOffsetMinutes(wall) * 60 * 1000) * 60 * 1000;
+}
+
+/** The zone's UTC offset at `date` as "-03:00" */
+export function formatZoneOffset(date: Date) {
+  const offset = zoneOffsetMinutes(date.getTime());
+  const minutes = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isCalendarDate(value: string) {
+  return CALENDAR_DATE_PATTERN.test(value);
+}
+
+/** The YYYY-MM-DD date of `date` as seen in the configured zone */
+export function calendarDate(date = new Date()) {
+  return date.toLocaleDateString('en-CA', { timeZone: getTimeZone() });
+}
+
+// A calendar day without a time is pinned to midday in the configured zone so it never shifts a day in UTC
+export function calendarDateToTimestamp(date: string) {
+  if (!isCalendarDate(date)) return undefined;
+  return `${date}T12:00:00${formatZoneOffset(new Date(zonedTime(date, '12:00:00')))}`;
+}
+
+/**
+ * Timestamp of a transaction the message places on `date` (YYYY-MM-DD): the
+ * message's own time when it is that day or no date was given, midday otherwise
+ */
+export function occurredAtTimestamp(date: string | null | undefined, receivedAt: Date) {
+  const timestamp = date && date !== calendarDate(receivedAt) ? calendarDateToTimestamp(date) : undefined;
+  // Date rolls "2026-02-31" over into March instead of rejecting it
+  return timestamp && calendarDate(new Date(timestamp)) === date ? timestamp : receivedAt.toISOString();
+}
+
+export function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function toCalendarDate(year: number, month: number, day: number) {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function shiftDate(date: string, days: number) {
+  return new Date(new Date(`${date}T12:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Whole days between two YYYY-MM-DD dates, positive when `b` is later */
+export function daysBetween(a: string, b: string) {
+  return Math.round((new Date(`${b}T12:00:00Z`).getTime() - new Date(`${a}T12:00:00Z`).getTime()) / DAY_MS);
+}
+
+/** ISO bounds of the inclusive YYYY-MM-DD days `since`..`until` in the configured zone: `since` inclusive, `until` exclusive */
+export function dayRangeBounds(since: string, until: string) {
+  return {
+    since: new Date(zonedTime(since, '00:00:00')).toISOString(),
+    until: new Date(zonedTime(shiftDate(until, 1), '00:00:00')).toISOString(),
+  };
+}
+
+/** The YYYY-MM period containing `date` in the configured zone */
+export function periodOf(date = new Date()) {
+  return calendarDate(date).slice(0, 7);
+}
+
+export function shiftPeriod(period: string, months: number) {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/** ISO bounds of a YYYY-MM period in the configured zone: `since` inclusive, `until` exclusive */
+export function periodBounds(period: string) {
+  const next = shiftPeriod(period, 1);
+  return {
+    since: new Date(zonedTime(`${period}-01`, '00:00:00')).toISOString(),
+    until: new Date(zonedTime(`${next}-01`, '00:00:00')).toISOString(),
+  };
+}
+
+export function formatPeriod(period: string) {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 15)).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
@@ -0,0 +1,175 @@
+import ExcelJS from 'exceljs';
+import { Transaction } from '../src/types';
+import { calendarDate, calendarDateToTimestamp, getTimeZone, zoneOffsetMinutes } from './dates';
+import { BASE_CURRENCY, sumAmounts } from './money';
+
+export type ExportFormat = 'csv' | 'ofx' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ofx', 'xlsx'];
+
+const TYPE_LABELS = { income: 'Receita', expense: 'Despesa' };
+
+function signedAmount(transaction: Transaction) {
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+}
+
+function isConverted(transaction: Transaction) {
+  return !!transaction.currency && transaction.currency !== BASE_CURRENCY && transaction.original_amount != null;
+}
+
+function ptBrDate(transaction: Transaction) {
+  return new Date(transaction.occurred_at).toLocaleDateString('pt-BR', { timeZone: getTimeZone() });
+}
+
+function ptBrAmount(amount: number) {
+  return amount.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Spreadsheets run text starting with these as a formula; amounts are formatted here and may start with "-"
+function csvText(value: string) {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvCell(value: string) {
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Semicolon-separated with comma decimals and a BOM, which is what Excel expects in a pt-BR locale */
+export function toCsv(transactions: Transaction[]) {
+  const lines = [
+    ['Data', 'Tipo', 'Categoria', 'Descrição', 'Valor (R$)', 'Moeda', 'Valor original', 'Origem'],
+    ...transactions.map((t) => [
+      ptBrDate(t),
+      TYPE_LABELS[t.type],
+      csvText(t.category),
+      csvText(t.description),
+      ptBrAmount(signedAmount(t)),
+      t.currency || BASE_CURRENCY,
+      isConverted(t) ? ptBrAmount(t.original_amount!) : '',
+      csvText(t.whatsapp_from || ''),
+    ]),
+  ];
+  return '\uFEFF' + lines.map((line) => line.map(csvCell).join(';')).join('\r\n') + '\r\n';
+}
+
+// Midday of the local day, with the zone's UTC offset in hours: "20261019120000[-3]"
+function ofxDate(date: Date) {
+  const day = calendarDate(date);
+  const offsetHours = zoneOffsetMinutes(new Date(calendarDateToTimestamp(day)!).getTime()) / 60;
+  return `${day.replace(/-/g, '')}120000[${offsetHours}]`;
+}
+
+function ofxText(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/[\r\n]+/g, ' ');
+}
+
+/** OFX 1.0.2 bank statement; amounts and dates follow the OFX spec rather than pt-BR formatting */
+export function toOfx(transactions: Transaction[]) {
+  const dates = transactions.map((t) => new Date(t.occurred_at).getTime());
+  const start = new Date(dates.length > 0 ? Math.min(...dates) : Date.now());
+  const end = new Date(dates.length > 0 ? Math.max(...dates) : Date.now());
+  const balance = sumAmounts(transactions.map(signedAmount));
+
+  const entries = transactions.map((t) => [
+    '<STMTTRN>',
+    `<TRNTYPE>${t.type === 'income' ? 'CREDIT' : 'DEBIT'}`,
+    `<DTPOSTED>${ofxDate(new Date(t.occurred_at))}`,
+    `<TRNAMT>${signedAmount(t).toFixed(2)}`,
+    `<FITID>${ofxText(t.id)}`,
+    `<NAME>${ofxText(t.category).slice(0, 32)}`,
+    `<MEMO>${ofxText(t.description)}`,
+    ...(isConverted(t) ? [`<ORIGCURRENCY><CURRATE>${t.exchange_rate}<CURSYM>${t.currency}</ORIGCURRENCY>`] : []),
+    '</STMTTRN>',
+  ].join('\n'));
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:UTF-8',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(new Date())}`,
+    '<LANGUAGE>POR',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>BRL',
+    '<BANKACCTFROM><BANKID>0000<ACCTID>gestor-financeiro<ACCTTYPE>CHECKING</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(start)}`,
+    `<DTEND>${ofxDate(end)}`,
+    ...entries,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${balance.toFixed(2)}<DTASOF>${ofxDate(end)}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+/** Real dates and numbers with pt-BR display formats, so the accountant can sum and filter the columns */
+export async function toXlsx(transactions: Transaction[]) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Transações', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = [
+    { header: 'Data', key: 'date', width: 12, style: { numFmt: 'dd/mm/yyyy' } },
+    { header: 'Tipo', key: 'type', width: 10 },
+    { header: 'Categoria', key: 'category', width: 18 },
+    { header: 'Descrição', key: 'description', width: 40 },
+    { header: 'Valor (R$)', key: 'amount', width: 14, style: { numFmt: '#,##0.00;[Red]-#,##0.00' } },
+    { header: 'Moeda', key: 'currency', width: 8 },
+    { header: 'Valor original', key: 'original', width: 14, style: { numFmt: '#,##0.00' } },
+    { header: 'Origem', key: 'origin', width: 24 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  for (const t of transactions) {
+    sheet.addRow({
+      // Excel dates carry no timezone, so store the local calendar day at UTC midnight
+      date: new Date(`${calendarDate(new Date(t.occurred_at))}T00:00:00Z`),
+      type: TYPE_LABELS[t.type],
+      category: t.category,
+      description: t.description,
+      amount: signedAmount(t),
+      currency: t.currency || BASE_CURRENCY,
+      original: isConverted(t) ? t.original_amount : null,
+      origin: t.whatsapp_from || '',
+    });
+  }
+
+  if (transactions.length > 0) {
+    const total = sheet.addRow({
+      description: 'Saldo do período',
+      amount: { formula: `SUM(E2:E${transactions.length + 1})`, result: sumAmounts(transactions.map(signedAmount)) },
+    });
+    total.font = { bold: true };
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export async function exportTransactions(transactions: Transaction[], format: ExportFormat) {
+  switch (format) {
+    case 'ofx':
+      return { contentType: 'application/x-ofx', body: toOfx(transactions) };
+    case 'xlsx':
+      return {
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: await toXlsx(transactions),
+      };
+    default:
+      return { contentType: 'text/csv; charset=utf-8', body: toCsv(transactions) };
+  }
+}
@@ -0,0 +1,60 @@
+import { PAYMENT_METHODS } from './accounts';
+import { isCalendarDate } from './dates';
+import { isCurrencyCode } from './money';
+import { ExtractedTransaction } from './parser';
+import { MISSING_FIELDS } from './pending';
+
+/** A transaction as Gemini returns it, before the extractor is recorded */
+export type ModelTransaction = Omit<ExtractedTransaction, 'extractor'> & {
+  /** Each installment's value, when the message states it instead of the total */
+  installment_amount?: number | null;
+};
+
+function optionalString(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function optionalNumber(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Checks one transaction from Gemini against the schema it was asked for. The
+ * response schema is a request, not a guarantee, so nothing is saved unchecked.
+ * Returns null when amount, type, category or description is unusable; optional
+ * fields that do not fit are dropped.
+ */
+export function validateModelTransaction(value: unknown): ModelTransaction | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  // An amount of 0 is how Gemini says it found none; it is then asked for
+  const amount = optionalNumber(raw.amount);
+  if (amount === null || amount < 0) return null;
+  if (raw.type !== 'income' && raw.type !== 'expense') return null;
+  const category = optionalString(raw.category);
+  if (!category || typeof raw.description !== 'string') return null;
+
+  const currency = typeof raw.currency === 'string' ? raw.currency.trim().toUpperCase() : '';
+  const occurredAt = typeof raw.occurred_at === 'string' && isCalendarDate(raw.occurred_at) ? raw.occurred_at : null;
+  const confidence = optionalNumber(raw.confidence);
+  const installments = optionalNumber(raw.installments);
+  return {
+    amount,
+    type: raw.type,
+    category,
+    description: raw.description.trim(),
+    currency: isCurrencyCode(currency) ? currency : undefined,
+    occurred_at: occurredAt,
+    payment_method: PAYMENT_METHODS.find((method) => method === raw.payment_method) || null,
+    account: optionalString(raw.account),
+    installments: installments !== null && Number.isInteger(installments) ? installments : null,
+    installment_amount: optionalNumber(raw.installment_amount),
+    merchant: optionalString(raw.merchant),
+    // A missing or out-of-range confidence is no confidence, so the transaction is confirmed first
+    confidence: confidence !== null && confidence >= 0 && confidence <= 1 ? confidence : 0,
+    missing_fields: Array.isArray(raw.missing_fields)
+      ? MISSING_FIELDS.filter((field) => (raw.missing_fields as unknown[]).includes(field))
+      : [],
+  };
+}
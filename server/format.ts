@@ -0,0 +1,21 @@
+import { Transaction } from '../src/types';
+import { calendarDateToTimestamp, getTimeZone, isCalendarDate } from './dates';
+import { BASE_CURRENCY, currencySymbol } from './money';
+
+export function formatMoney(value: number, currency = BASE_CURRENCY) {
+  return `${value < 0 ? '-' : ''}${currencySymbol(currency)} ${Math.abs(value).toFixed(2)}`;
+}
+
+/** "US$ 20.00 (R$ 108.60)" for a converted transaction, the plain amount otherwise */
+export function formatTransactionAmount(transaction: Pick<Transaction, 'amount' | 'currency' | 'original_amount'>) {
+  if (!transaction.currency || transaction.currency === BASE_CURRENCY || transaction.original_amount == null) {
+    return formatMoney(transaction.amount);
+  }
+  return `${formatMoney(transaction.original_amount, transaction.currency)} (${formatMoney(transaction.amount)})`;
+}
+
+export function formatDate(value: string) {
+  // A bare YYYY-MM-DD is parsed as UTC midnight, which is still the previous day west of Greenwich
+  const date = isCalendarDate(value) ? new Date(calendarDateToTimestamp(value)!) : new Date(value);
+  return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', timeZone: getTimeZone() });
+}
@@ -0,0 +1,191 @@
+import { GroupDebt, GroupMember, SplitEntry, Transaction } from '../src/types';
+import { formatMoney } from './format';
+import { firstInstallments } from './installments';
+import { sumAmounts, toCents } from './money';
+import { findAmount } from './parser';
+import { NewSplitEntry, Storage } from './storage';
+
+export function isGroupChat(chatId: string | undefined) {
+  return !!chatId && chatId.endsWith('@g.us');
+}
+
+function normalize(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+/** The participant's name in the group, or their phone number when they never had one */
+export function memberName(members: GroupMember[], memberId: string) {
+  return members.find((member) => member.member_id === memberId)?.name || memberId.split('@')[0];
+}
+
+/** The member called `name`, by full name or first name; null when nobody or more than one matches */
+export function findMember(members: GroupMember[], name: string) {
+  const wanted = normalize(name);
+  const exact = members.filter((member) => normalize(member.name) === wanted);
+  if (exact.length === 1) return exact[0];
+  const byFirstName = members.filter((member) => normalize(member.name).split(' ')[0] === wanted);
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+}
+
+const EVERYONE = ['todos', 'todo mundo', 'geral', 'galera', 'a galera', 'o grupo', 'grupo', 'a casa'];
+
+/**
+ * Finds "dividir com Ana", "dividido entre Ana e Bruno" or "rachar com todos"
+ * at the end of a message. Returns the message without it, so the extractor
+ * does not read "Ana e Bruno" as two transactions.
+ */
+export function parseSplit(text: string): { text: string; names: string[]; everyone: boolean } | null {
+  const match = text.match(/[,;.]?\s*(?:\be\s+)?\b(?:dividir|divide|dividi|dividid[oa]|rachar|racha|rachei|rachad[oa])\s+(?:com|entre)\s+(.+)$/i);
+  if (!match) return null;
+
+  const names = match[1]
+    .replace(/[.!]+$/, '')
+    .split(/\s*,\s*|\s+e\s+/i)
+    .map((name) => name.trim().replace(/^(?:[oa]s?)\s+/i, ''))
+    .filter(Boolean);
+  return {
+    text: text.slice(0, match.index).trim(),
+    names: names.filter((name) => !EVERYONE.includes(normalize(name))),
+    everyone: names.some((name) => EVERYONE.includes(normalize(name))),
+  };
+}
+
+/**
+ * Resolves the people an expense is split with. `missing` lists names that
+ * match no member, which usually means that person has not written in the group yet.
+ */
+export function resolveSplitMembers(split: { names: string[]; everyone: boolean }, members: GroupMember[], payerId: string) {
+  const missing: string[] = [];
+  const debtors = new Set<string>();
+  if (split.everyone) members.forEach((member) => debtors.add(member.member_id));
+  for (const name of split.names) {
+    const member = findMember(members, name);
+    if (member) debtors.add(member.member_id);
+    else missing.push(name);
+  }
+  debtors.delete(payerId);
+  return { debtors: [...debtors], missing };
+}
+
+/**
+ * Equal shares of every expense among the payer and `debtorIds`, one entry per
+ * debtor. The payer absorbs the leftover cents. A purchase in installments is
+ * split once, for its total, on its first installment.
+ */
+export function buildShares(groupId: string, payerId: string, debtorIds: string[], transactions: Transaction[]): NewSplitEntry[] {
+  const purchaseTotals = new Map<string, number[]>();
+  for (const t of transactions) {
+    if (t.installment_purchase_id) {
+      purchaseTotals.set(t.installment_purchase_id, [...(purchaseTotals.get(t.installment_purchase_id) || []), t.amount]);
+    }
+  }
+
+  return firstInstallments(transactions)
+    .filter((t) => t.type === 'expense')
+    .flatMap((t) => {
+      const amount = t.installment_purchase_id ? sumAmounts(purchaseTotals.get(t.installment_purchase_id)!) : t.amount;
+      const share = Math.floor(toCents(amount) / (debtorIds.length + 1)) / 100;
+      if (share <= 0) return [];
+      return debtorIds.map((debtorId) => ({
+        group_id: groupId,
+        debtor_id: debtorId,
+        creditor_id: payerId,
+        amount: share,
+        kind: 'share' as const,
+        transaction_id: t.id,
+        description: t.description,
+      }));
+    });
+}
+
+const NAME = '(?<name>[\\p{L}]+(?:\\s+[\\p{L}]+)?)';
+const AMOUNT = '(?<amount>(?:r\\$\\s*)?\\d[\\d.,]*)';
+// The sender paid someone back, or someone paid the sender back
+const SETTLEMENT_PATTERNS: [RegExp, 'paid' | 'received'][] = [
+  [new RegExp(`^(?:paguei|transferi|pixei|mandei|devolvi|acertei)\\s+${AMOUNT}\\s+(?:reais\\s+)?(?:pr[ao]|para|com|a|à)\\s+(?:[oa]\\s+)?${NAME}`, 'iu'), 'paid'],
+  [new RegExp(`^${NAME}\\s+(?:me\\s+)?(?:pagou|transferiu|devolveu|acertou|pixou|mandou)\\s+${AMOUNT}`, 'iu'), 'received'],
+  [new RegExp(`^recebi\\s+${AMOUNT}\\s+(?:reais\\s+)?(?:d[oa]|de)\\s+${NAME}`, 'iu'), 'received'],
+];
+
+/**
+ * Parses "paguei 60 pra Ana", "acertei 60 com Ana", "Ana me pagou 60" or
+ * "recebi 60 da Ana" into a settlement between the sender and a group member.
+ * Returns null when no member is named, so "paguei 60 pro encanador" is still an expense.
+ */
+export function parseSettlement(text: string, groupId: string, senderId: string, members: GroupMember[]): NewSplitEntry | null {
+  for (const [pattern, direction] of SETTLEMENT_PATTERNS) {
+    const match = text.trim().match(pattern);
+    if (!match) continue;
+    const { name, amount: amountText } = match.groups!;
+    // "Ana Maria" or just "Ana" followed by another word
+    const member = findMember(members, name) || findMember(members, name.split(/\s+/)[0]);
+    const amount = findAmount(amountText);
+    if (!member || !amount || member.member_id === senderId) continue;
+
+    const [debtor, creditor] = direction === 'paid' ? [senderId, member.member_id] : [member.member_id, senderId];
+    return {
+      group_id: groupId,
+      debtor_id: debtor,
+      creditor_id: creditor,
+      amount,
+      kind: 'settlement',
+      transaction_id: null,
+      description: 'Acerto',
+    };
+  }
+  return null;
+}
+
+/** Net position of every member: positive when the others owe them, negative when they owe */
+export function memberBalances(entries: SplitEntry[]) {
+  const movements = new Map<string, number[]>();
+  const add = (memberId: string, amount: number) => movements.set(memberId, [...(movements.get(memberId) || []), amount]);
+  for (const entry of entries) {
+    // A settlement undoes debt: the debtor pays the creditor back
+    const sign = entry.kind === 'share' ? 1 : -1;
+    add(entry.creditor_id, sign * entry.amount);
+    add(entry.debtor_id, -sign * entry.amount);
+  }
+  return new Map([...movements.entries()].map(([memberId, amounts]) => [memberId, sumAmounts(amounts)]));
+}
+
+/** The fewest payments that settle every balance: the largest debtor pays the largest creditor first */
+export function simplifyDebts(balances: Map<string, number>) {
+  const debtors = [...balances.entries()].filter(([, amount]) => amount < 0).map(([id, amount]) => ({ id, cents: -toCents(amount) }));
+  const creditors = [...balances.entries()].filter(([, amount]) => amount > 0).map(([id, amount]) => ({ id, cents: toCents(amount) }));
+  debtors.sort((a, b) => b.cents - a.cents);
+  creditors.sort((a, b) => b.cents - a.cents);
+
+  const payments: { debtor_id: string; creditor_id: string; amount: number }[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const cents = Math.min(debtors[d].cents, creditors[c].cents);
+    if (cents > 0) payments.push({ debtor_id: debtors[d].id, creditor_id: creditors[c].id, amount: cents / 100 });
+    debtors[d].cents -= cents;
+    creditors[c].cents -= cents;
+    if (debtors[d].cents === 0) d++;
+    if (creditors[c].cents === 0) c++;
+  }
+  return payments;
+}
+
+export async function getGroupDebts(storage: Storage, groupId: string): Promise<GroupDebt[]> {
+  const [members, entries] = await Promise.all([storage.groups.listMembers(groupId), storage.groups.listEntries(groupId)]);
+  return simplifyDebts(memberBalances(entries)).map((debt) => ({
+    ...debt,
+    debtor_name: memberName(members, debt.debtor_id),
+    creditor_name: memberName(members, debt.creditor_id),
+  }));
+}
+
+export function formatGroupDebts(debts: GroupDebt[]) {
+  if (debts.length === 0) return '🤝 Ninguém deve nada a ninguém no grupo.';
+  const lines = debts.map((debt) => `• ${debt.debtor_name} deve ${formatMoney(debt.amount)} para ${debt.creditor_name}`);
+  return `🤝 *Quem deve quem*\n${lines.join('\n')}`;
+}
@@ -0,0 +1,345 @@
+import { createHash } from 'crypto';
+import { ImportRow } from '../src/types';
+import { calendarDate, calendarDateToTimestamp, daysBetween, isCalendarDate, shiftDate, toCalendarDate } from './dates';
+import { loadTaxonomy, resolveCategory } from './categories';
+import { Storage } from './storage';
+
+/** Days around a bank row in which an existing transaction with the same amount counts as a likely duplicate */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+interface StatementRow {
+  external_id: string;
+  date: string;
+  /** Negative for money going out */
+  amount: number;
+  description: string;
+}
+
+const HEADER_ALIASES = {
+  date: ['data', 'date', 'data lancamento', 'data de lancamento', 'data da transacao', 'data movimento', 'data mov', 'dt'],
+  description: ['descricao', 'description', 'historico', 'title', 'lancamento', 'estabelecimento', 'memo'],
+  details: ['detalhes', 'complemento'],
+  amount: ['valor', 'amount', 'valor (r$)', 'valor r$', 'quantia'],
+  credit: ['entrada', 'entradas', 'credito', 'credito (r$)'],
+  debit: ['saida', 'saidas', 'debito', 'debito (r$)'],
+};
+
+function normalize(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Parses amounts as banks export them: "1.234,56", "-45.90", "45,90 D",
+ * "(12,00)" or "R$ 1,234.56". Returns a negative number for debits.
+ */
+export function parseSignedAmount(value: string): number | null {
+  let text = value.trim().replace(/r\$\s*/i, '').replace(/\s+/g, '');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/[dD]$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1);
+  } else if (/[cC]$/.test(text)) {
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-') || text.endsWith('-')) {
+    negative = !negative;
+    text = text.replace(/-/g, '');
+  }
+  text = text.replace(/^\+/, '');
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma !== -1) {
+    text = text.replace(/,/g, '');
+  } else if (lastComma === -1 && /^\d{1,3}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/** Accepts dd/mm/yyyy, dd/mm/yy, dd-mm-yyyy, yyyy-mm-dd and OFX yyyymmdd[hhmmss] */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return toCalendarDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return toCalendarDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return toCalendarDate(year, +match[2], +match[1]);
+  }
+
+  return null;
+}
+
+function rowHash(parts: string[]) {
+  return createHash('sha1').update(parts.join('|')).digest('hex').slice(0, 16);
+}
+
+function ofxField(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+export function parseOfx(content: string): StatementRow[] {
+  const rows: StatementRow[] = [];
+
+  for (const block of content.split(/<STMTTRN>/i).slice(1)) {
+    const date = parseStatementDate(ofxField(block, 'DTPOSTED'));
+    const amount = parseSignedAmount(ofxField(block, 'TRNAMT'));
+    if (!date || amount === null || amount === 0) continue;
+
+    const description = ofxField(block, 'MEMO') || ofxField(block, 'NAME') || 'Lançamento importado';
+    const fitId = ofxField(block, 'FITID');
+    rows.push({
+      external_id: fitId ? `ofx:${fitId}` : `ofx:${rowHash([date, String(amount), description])}`,
+      date,
+      amount,
+      description,
+    });
+  }
+
+  return rows;
+}
+
+function splitCsvLine(line: string, delimiter: string) {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function findColumn(headers: string[], aliases: string[]) {
+  const exact = headers.findIndex((header) => aliases.includes(header));
+  if (exact !== -1) return exact;
+  return headers.findIndex((header) => aliases.some((alias) => header.startsWith(alias)));
+}
+
+/**
+ * Reads the CSV exports of the common Brazilian banks (Nubank, Inter, Itaú,
+ * Bradesco, Banco do Brasil, C6...) by locating the header row and matching
+ * its column names, with either a signed amount or separate credit/debit columns.
+ */
+export function parseCsv(content: string): StatementRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim());
+  const rows: StatementRow[] = [];
+
+  for (let headerIndex = 0; headerIndex < Math.min(lines.length, 20); headerIndex++) {
+    const delimiter = (lines[headerIndex].match(/;/g) || []).length >= (lines[headerIndex].match(/,/g) || []).length ? ';' : ',';
+    const headers = splitCsvLine(lines[headerIndex], delimiter).map(normalize);
+
+    const columns = {
+      date: findColumn(headers, HEADER_ALIASES.date),
+      description: findColumn(headers, HEADER_ALIASES.description),
+      details: findColumn(headers, HEADER_ALIASES.details),
+      amount: findColumn(headers, HEADER_ALIASES.amount),
+      credit: findColumn(headers, HEADER_ALIASES.credit),
+      debit: findColumn(headers, HEADER_ALIASES.debit),
+    };
+    if (columns.date === -1 || (columns.amount === -1 && columns.credit === -1 && columns.debit === -1)) continue;
+
+    // Nubank credit card exports (date,title,amount) list purchases as positive values
+    const positiveIsExpense = headers.includes('title') && headers.includes('amount');
+    const seen = new Map<string, number>();
+
+    for (const line of lines.slice(headerIndex + 1)) {
+      const cells = splitCsvLine(line, delimiter);
+      const date = parseStatementDate(cells[columns.date] || '');
+      if (!date) continue;
+
+      let amount: number | null = null;
+      if (columns.amount !== -1 && cells[columns.amount]) {
+        amount = parseSignedAmount(cells[columns.amount]);
+        if (amount !== null && positiveIsExpense) amount = -amount;
+      } else {
+        const credit = columns.credit !== -1 ? parseSignedAmount(cells[columns.credit] || '') : null;
+        const debit = columns.debit !== -1 ? parseSignedAmount(cells[columns.debit] || '') : null;
+        if (credit) amount = Math.abs(credit);
+        else if (debit) amount = -Math.abs(debit);
+      }
+      if (amount === null || amount === 0) continue;
+
+      const description = [cells[columns.description], columns.details !== -1 ? cells[columns.details] : '']
+        .filter(Boolean)
+        .join(' - ') || 'Lançamento importado';
+      // Balance lines ("Saldo anterior", "S A L D O") are not movements
+      if (/^(saldo|s a l d o)/.test(normalize(description))) continue;
+
+      // Identical rows on the same day (two coffees) must still get distinct ids
+      const key = [date, amount.toFixed(2), description].join('|');
+      const occurrence = (seen.get(key) || 0) + 1;
+      seen.set(key, occurrence);
+
+      rows.push({ external_id: `csv:${rowHash([key, String(occurrence)])}`, date, amount, description });
+    }
+    break;
+  }
+
+  return rows;
+}
+
+export function parseStatement(filename: string, content: string) {
+  const isOfx = /\.ofx$/i.test(filename) || /<OFX>/i.test(content);
+  return { format: isOfx ? 'ofx' : 'csv', rows: isOfx ? parseOfx(content) : parseCsv(content) };
+}
+
+function tokens(text: string) {
+  return normalize(text)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !/^\d+$/.test(token));
+}
+
+/** Dice coefficient over words, where a word contained in another ("mercado", "supermercado") counts as shared */
+export function descriptionSimilarity(a: string, b: string) {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const shared = left.filter((token) => right.some((other) => other.includes(token) || token.includes(other))).length;
+  return Math.min(1, (2 * shared) / (left.length + right.length));
+}
+
+/**
+ * Picks a managed category for every row (merchant rules first) and flags rows that were already imported
+ * (same external id) or that likely duplicate an existing transaction: same
+ * type and amount within DUPLICATE_WINDOW_DAYS, scored by date proximity and
+ * description similarity. Each existing transaction matches at most one row.
+ */
+export async function buildImportPreview(storage: Storage, statement: StatementRow[]): Promise<ImportRow[]> {
+  if (statement.length === 0) return [];
+
+  const dates = statement.map((row) => row.date).sort();
+  const existing = await storage.transactions.list({
+    since: calendarDateToTimestamp(shiftDate(dates[0], -DUPLICATE_WINDOW_DAYS - 1)),
+    until: calendarDateToTimestamp(shiftDate(dates[dates.length - 1], DUPLICATE_WINDOW_DAYS + 1)),
+  });
+  const taxonomy = await loadTaxonomy(storage);
+  const importedIds = new Set(existing.map((t) => t.external_id).filter(Boolean));
+  const claimed = new Set<string>();
+
+  return statement.map((row) => {
+    const type = row.amount < 0 ? 'expense' : 'income';
+    const amount = Math.round(Math.abs(row.amount) * 100) / 100;
+    const alreadyImported = importedIds.has(row.external_id);
+
+    let duplicate: ImportRow['duplicate'] = null;
+    if (!alreadyImported) {
+      for (const candidate of existing) {
+        if (claimed.has(candidate.id) || candidate.type !== type || Math.abs(candidate.amount - amount) >= 0.01) continue;
+
+        const days = Math.abs(daysBetween(calendarDate(new Date(candidate.occurred_at)), row.date));
+        if (days > DUPLICATE_WINDOW_DAYS) continue;
+
+        const score = 0.5 + 0.3 * descriptionSimilarity(candidate.description, row.description) + 0.2 * (1 - days / (DUPLICATE_WINDOW_DAYS + 1));
+        if (!duplicate || score > duplicate.score) {
+          const { id, occurred_at, description, category } = candidate;
+          duplicate = { id, occurred_at, amount: candidate.amount, description, category, score: Math.round(score * 100) / 100 };
+        }
+      }
+      if (duplicate) claimed.add(duplicate.id);
+    }
+
+    return {
+      external_id: row.external_id,
+      date: row.date,
+      amount,
+      type,
+      description: row.description,
+      category: resolveCategory(taxonomy, { description: row.description, type }),
+      already_imported: alreadyImported,
+      duplicate,
+      action: alreadyImported ? 'skip' : duplicate ? 'merge' : 'import',
+    };
+  });
+}
+
+/**
+ * Applies the actions confirmed in the dashboard: "import" inserts the row,
+ * "merge" keeps the existing transaction and links it to the bank row, "skip" does nothing.
+ * Duplicates are detected again rather than trusted from the request, so a
+ * merge only ever touches the transaction the preview matched the row with.
+ */
+export async function commitImport(storage: Storage, rows: ImportRow[]) {
+  const taxonomy = await loadTaxonomy(storage);
+  const preview = await buildImportPreview(
+    storage,
+    rows.map((row) => ({
+      external_id: row.external_id,
+      date: row.date,
+      amount: row.type === 'expense' ? -row.amount : row.amount,
+      description: row.description,
+    }))
+  );
+  const detected = new Map(preview.map((row) => [row.external_id, row]));
+  const toImport = rows.filter((row) => row.action === 'import' && !detected.get(row.external_id)?.already_imported);
+  const toMerge = rows.filter((row) => row.action === 'merge' && row.duplicate?.id && row.duplicate.id === detected.get(row.external_id)?.duplicate?.id);
+
+  await storage.transactions.insert(
+    toImport.map((row) => ({
+      amount: row.amount,
+      type: row.type,
+      category: resolveCategory(taxonomy, row),
+      description: row.description,
+      raw_text: row.description,
+      whatsapp_from: 'Importação',
+      extractor: 'import',
+      external_id: row.external_id,
+      occurred_at: calendarDateToTimestamp(row.date),
+    }))
+  );
+  for (const row of toMerge) {
+    await storage.transactions.update(row.duplicate!.id, { external_id: row.external_id });
+  }
+
+  return { imported: toImport.length, merged: toMerge.length, skipped: rows.length - toImport.length - toMerge.length };
+}
+
+export function isValidImportRow(row: any): row is ImportRow {
+  return (
+    !!row &&
+    typeof row.external_id === 'string' &&
+    typeof row.date === 'string' && isCalendarDate(row.date) &&
+    Number(row.amount) > 0 &&
+    ['income', 'expense'].includes(row.type) &&
+    typeof row.description === 'string' &&
+    typeof row.category === 'string' && !!row.category.trim() &&
+    ['import', 'merge', 'skip'].includes(row.action)
+  );
+}
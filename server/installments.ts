@@ -0,0 +1,147 @@
+import { InstallmentOverview, InstallmentPurchase, InstallmentSummary, Transaction } from '../src/types';
+import { calendarDate, calendarDateToTimestamp, daysInMonth, toCalendarDate } from './dates';
+import { applyRate, sumAmounts, toCents } from './money';
+import { NewTransaction, Storage } from './storage';
+
+// Card issuers in Brazil rarely go past 24x; anything far beyond that is a misread number
+export const MAX_INSTALLMENTS = 48;
+
+export function isInstallmentCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 1 && (value as number) <= MAX_INSTALLMENTS;
+}
+
+/** `total` split into `count` installments of whole cents; the first one takes the leftover cents */
+export function splitInstallments(total: number, count: number) {
+  const cents = toCents(total);
+  const each = Math.floor(cents / count);
+  return Array.from({ length: count }, (_, index) => (index === 0 ? cents - each * (count - 1) : each) / 100);
+}
+
+/** The same day of each month from `firstDate` on, moved to the last day in shorter months */
+export function installmentDates(firstDate: string, count: number) {
+  const [year, month, day] = firstDate.split('-').map(Number);
+  return Array.from({ length: count }, (_, index) => {
+    const monthIndex = year * 12 + (month - 1) + index;
+    const [y, m] = [Math.floor(monthIndex / 12), (monthIndex % 12) + 1];
+    return toCalendarDate(y, m, Math.min(day, daysInMonth(y, m)));
+  });
+}
+
+export type TransactionRow = NewTransaction & { installments?: number | null };
+
+function expandInstallments(row: TransactionRow, purchase: InstallmentPurchase): NewTransaction[] {
+  const { installments, ...transaction } = row;
+  const count = purchase.installment_count;
+  // A converted purchase is split in its own currency and each part converted at the purchase's rate
+  const parts = transaction.original_amount != null && transaction.exchange_rate
+    ? splitInstallments(transaction.original_amount, count).map((original) => ({
+        original_amount: original,
+        amount: applyRate(original, transaction.exchange_rate!),
+      }))
+    : splitInstallments(transaction.amount, count).map((amount) => ({ amount }));
+
+  return installmentDates(purchase.first_date, count).map((date, index) => ({
+    ...transaction,
+    ...parts[index],
+    // The first installment keeps the purchase's own time
+    occurred_at: index === 0 ? transaction.occurred_at : calendarDateToTimestamp(date),
+    installment_purchase_id: purchase.id,
+    installment_number: index + 1,
+    installment_count: count,
+  }));
+}
+
+/**
+ * Inserts extracted rows, creating an installment purchase and one transaction
+ * per month for rows paid in installments. Resolves to every inserted row.
+ */
+export async function insertTransactions(storage: Storage, rows: TransactionRow[]) {
+  const expanded: NewTransaction[] = [];
+  for (const row of rows) {
+    if (!isInstallmentCount(row.installments)) {
+      const { installments, ...transaction } = row;
+      expanded.push(transaction);
+      continue;
+    }
+    const occurredAt = row.occurred_at || new Date().toISOString();
+    const purchase = await storage.installments.insert({
+      description: row.description,
+      category: row.category,
+      total_amount: row.amount,
+      installment_count: row.installments,
+      first_date: calendarDate(new Date(occurredAt)),
+      account_id: row.account_id || null,
+      payment_method: row.payment_method || null,
+      whatsapp_from: row.whatsapp_from || null,
+    });
+    expanded.push(...expandInstallments({ ...row, occurred_at: occurredAt }, purchase));
+  }
+  return storage.transactions.insert(expanded);
+}
+
+/** The rows a confirmation shows: plain transactions and the first installment of each purchase */
+export function firstInstallments(transactions: Transaction[]) {
+  return transactions.filter((t) => !t.installment_purchase_id || t.installment_number === 1);
+}
+
+function summarize(purchase: InstallmentPurchase, installments: Transaction[], now: Date): InstallmentSummary {
+  const remaining = installments.filter((t) => new Date(t.occurred_at) > now);
+  return {
+    ...purchase,
+    paid_count: installments.length - remaining.length,
+    remaining_count: remaining.length,
+    remaining_amount: sumAmounts(remaining.map((t) => t.amount)),
+    next_date: remaining[0] ? calendarDate(new Date(remaining[0].occurred_at)) : null,
+  };
+}
+
+/** Purchases with installments still to come, and how much they commit in each coming month */
+export async function getInstallmentOverview(storage: Storage, now = new Date()): Promise<InstallmentOverview> {
+  const purchases = await storage.installments.list();
+  const installments = await Promise.all(
+    purchases.map((purchase) => storage.transactions.list({ installmentPurchaseId: purchase.id, ascending: true }))
+  );
+
+  const committed = new Map<string, number[]>();
+  for (const t of installments.flat().filter((t) => new Date(t.occurred_at) > now)) {
+    const period = calendarDate(new Date(t.occurred_at)).slice(0, 7);
+    committed.set(period, [...(committed.get(period) || []), t.amount]);
+  }
+
+  const months = [...committed.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, amounts]) => ({ period, amount: sumAmounts(amounts) }));
+  return {
+    purchases: purchases
+      .map((purchase, index) => summarize(purchase, installments[index], now))
+      .filter((summary) => summary.remaining_count > 0)
+      .sort((a, b) => a.next_date!.localeCompare(b.next_date!)),
+    committed: months,
+    total_committed: sumAmounts(months.map((month) => month.amount)),
+  };
+}
+
+/**
+ * Cancels a purchase: installments still to come are removed, the ones already
+ * paid stay in the history. The group shares of the purchase go with it.
+ * Resolves to null when the purchase does not exist.
+ */
+export async function cancelInstallmentPurchase(storage: Storage, id: string, now = new Date()) {
+  const installments = await storage.transactions.list({ installmentPurchaseId: id });
+  const upcoming = installments.filter((t) => new Date(t.occurred_at) > now);
+  for (const t of upcoming) await storage.transactions.remove(t.id);
+  // The shares split the whole purchase and hang off its first installment, which may already be paid
+  await storage.groups.removeEntriesForTransactions(installments.map((t) => t.id));
+
+  const purchase = await storage.installments.cancel(id, now.toISOString());
+  return purchase ? { purchase, removed: upcoming.length } : null;
+}
+
+/** Removes a purchase with every installment, as if it was never recorded */
+export async function removeInstallmentPurchase(storage: Storage, id: string) {
+  const installments = await storage.transactions.list({ installmentPurchaseId: id });
+  for (const t of installments) await storage.transactions.remove(t.id);
+  await storage.groups.removeEntriesForTransactions(installments.map((t) => t.id));
+  await storage.installments.remove(id);
+  return installments;
+}
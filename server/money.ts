@@ -0,0 +1,79 @@
+import { ExchangeRate, Transaction } from '../src/types';
+
+/** Currency of `amount` on every transaction, and of all totals and budgets */
+export const BASE_CURRENCY = 'BRL';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  BRL: 'R$',
+  USD: 'US$',
+  EUR: '€',
+  GBP: '£',
+  ARS: 'AR$',
+  CLP: 'CLP$',
+  UYU: '$U',
+  CAD: 'C$',
+  JPY: '¥',
+};
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && CURRENCY_CODE_PATTERN.test(value);
+}
+
+export function currencySymbol(currency: string) {
+  return CURRENCY_SYMBOLS[currency] || currency;
+}
+
+export function toCents(amount: number) {
+  return Math.round(amount * 100);
+}
+
+// Amounts are added as integer cents, so a month of R$ 0,10 coffees does not total R$ 2,9999999
+export function sumAmounts(amounts: number[]) {
+  return amounts.reduce((cents, amount) => cents + toCents(amount), 0) / 100;
+}
+
+export function addAmounts(...amounts: number[]) {
+  return sumAmounts(amounts);
+}
+
+/**
+ * The rate in force for `currency` on `date` (YYYY-MM-DD): the latest one
+ * valid from that day or earlier, or the earliest one when the date predates
+ * the table. Null when no rate was ever recorded for the currency.
+ */
+export function findExchangeRate(rates: ExchangeRate[], currency: string, date: string) {
+  const candidates = rates
+    .filter((rate) => rate.currency === currency)
+    .sort((a, b) => a.valid_from.localeCompare(b.valid_from));
+  const inForce = candidates.filter((rate) => rate.valid_from <= date);
+  return inForce[inForce.length - 1] || candidates[0] || null;
+}
+
+export interface Conversion {
+  amount: number;
+  currency: string;
+  original_amount: number | null;
+  exchange_rate: number | null;
+}
+
+/** Fields of a transaction worth `amount` in `currency` on `date`, or null when there is no rate to convert it with */
+export function convertToBase(rates: ExchangeRate[], amount: number, currency: string | null | undefined, date: string): Conversion | null {
+  if (!currency || currency === BASE_CURRENCY) {
+    return { amount, currency: BASE_CURRENCY, original_amount: null, exchange_rate: null };
+  }
+  const rate = findExchangeRate(rates, currency, date);
+  if (!rate) return null;
+  return { amount: applyRate(amount, rate.rate), currency, original_amount: amount, exchange_rate: rate.rate };
+}
+
+export function applyRate(amount: number, rate: number) {
+  return Math.round(toCents(amount) * rate) / 100;
+}
+
+/** Fields to update when `amount`, given in the transaction's own currency, replaces its value */
+export function amountChanges(transaction: Pick<Transaction, 'exchange_rate' | 'original_amount'>, amount: number) {
+  if (!transaction.exchange_rate || transaction.original_amount == null) return { amount };
+  return { amount: applyRate(amount, transaction.exchange_rate), original_amount: amount };
+}
@@ -0,0 +1,338 @@
+import { Extractor, MissingField, PaymentMethod } from '../src/types';
+import { calendarDate, daysInMonth, shiftDate, toCalendarDate } from './dates';
+import { isInstallmentCount } from './installments';
+
+export interface ExtractedTransaction {
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+  /** ISO 4217 code; BRL unless the message names another currency */
+  currency?: string;
+  /** YYYY-MM-DD the transaction happened, when the message says so */
+  occurred_at?: string | null;
+  payment_method?: PaymentMethod | null;
+  /** Name of the account or card the message mentions */
+  account?: string | null;
+  /** Number of monthly installments of a purchase paid in parts ("em 10x"); `amount` is then the total */
+  installments?: number | null;
+  /** Establishment or payee, read from receipt photos */
+  merchant?: string | null;
+  /** From 0 to 1, how sure Gemini was; unset for the rule-based parser, which only returns what it fully read */
+  confidence?: number | null;
+  /** Fields Gemini had to guess */
+  missing_fields?: MissingField[];
+  extractor: Extractor;
+}
+
+// First match wins, so more specific keywords come before generic ones
+const CATEGORY_KEYWORDS: [string, string[]][] = [
+  ['salário', ['salario', 'holerite', 'decimo terceiro', '13o', 'ferias']],
+  ['investimentos', ['rendimento', 'rendimentos', 'dividendo', 'dividendos', 'juros', 'aplicacao', 'tesouro', 'cdb']],
+  ['assinaturas', ['netflix', 'spotify', 'prime video', 'disney', 'hbo', 'assinatura', 'youtube premium']],
+  ['moradia', ['aluguel', 'condominio', 'iptu', 'luz', 'energia', 'conta de agua', 'gas', 'internet', 'faxina', 'diarista']],
+  ['transporte', ['uber', '99', 'taxi', 'onibus', 'metro', 'gasolina', 'combustivel', 'etanol', 'estacionamento', 'pedagio', 'passagem']],
+  ['alimentação', ['mercado', 'supermercado', 'padaria', 'feira', 'acougue', 'hortifruti', 'almoco', 'almocei', 'jantar', 'jantei', 'lanche', 'lanchei', 'restaurante', 'ifood', 'pizza', 'cafe', 'comida']],
+  ['saúde', ['farmacia', 'remedio', 'medico', 'consulta', 'dentista', 'exame', 'plano de saude', 'hospital', 'academia']],
+  ['educação', ['escola', 'faculdade', 'curso', 'livro', 'livros', 'mensalidade']],
+  ['lazer', ['cinema', 'show', 'bar', 'cerveja', 'balada', 'viagem', 'hotel', 'passeio', 'jogo']],
+  ['compras', ['roupa', 'roupas', 'sapato', 'shopping', 'amazon', 'mercado livre', 'shopee', 'presente']],
+];
+
+const INCOME_VERBS = ['recebi', 'ganhei', 'entrou', 'caiu', 'vendi', 'reembolso', 'reembolsaram', 'depositaram', 'pagaram', 'me pagou'];
+const EXPENSE_VERBS = ['gastei', 'paguei', 'comprei', 'pago', 'saiu', 'transferi', 'almocei', 'jantei', 'lanchei', 'abasteci', 'assinei'];
+
+const FILLER_WORDS = new Set([
+  'reais', 'real', 'conto', 'contos', 'pila', 'r$', 'rs', 'com', 'de', 'do', 'da', 'dos', 'das', 'no', 'na', 'nos', 'nas',
+  'em', 'pra', 'para', 'por', 'o', 'a', 'os', 'as', 'um', 'uma', 'eu', 'hoje', 'mil',
+]);
+
+// Amounts such as "45", "45,90", "2.500,00", "R$ 200" and "2 mil"
+const AMOUNT_PATTERN = /(?:r\$\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?)(\s*mil\b)?/i;
+
+// "por 90", "de 90" and "90 reais" mark the number that is the price; R$ is part of AMOUNT_PATTERN itself
+const PRICE_BEFORE = /(?:^|\s)(?:por|de)\s+$/i;
+const PRICE_AFTER = /^\s*(?:reais|real|contos?|pila)\b/i;
+
+/**
+ * The amount of a clause that may hold other numbers, as in "comprei 3 camisas
+ * por 90": a number written as money wins, then one with cents, then the only
+ * number. Several unmarked numbers are too ambiguous to pick from.
+ */
+function matchClauseAmount(clause: string) {
+  const matches = [...clause.matchAll(new RegExp(AMOUNT_PATTERN.source, 'gi'))];
+  const priced = matches.find((match) => {
+    const before = clause.slice(0, match.index);
+    const after = clause.slice(match.index! + match[0].length);
+    return /r\$/i.test(match[0]) || PRICE_BEFORE.test(before) || PRICE_AFTER.test(after);
+  });
+  if (priced) return priced;
+  const withCents = matches.filter((match) => /,\d{2}$/.test(match[1]));
+  if (withCents.length === 1) return withCents[0];
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function normalize(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsWord(normalized: string, keyword: string) {
+  return new RegExp(`(^|[^\\w])${escapeRegExp(keyword)}($|[^\\w])`).test(normalized);
+}
+
+// Accepts "45", "45,90", "1.200,50" and "1200.50"
+export function parseBrazilianAmount(value: string): number | null {
+  let normalized = value.replace(/[^\d.,]/g, '');
+  if (!normalized) return null;
+
+  if (normalized.includes(',')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else if (/\.\d{3}$/.test(normalized)) {
+    // "2.500" is two thousand five hundred, not two and a half
+    normalized = normalized.replace(/\./g, '');
+  }
+
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+function categorize(normalized: string) {
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some((keyword) => containsWord(normalized, keyword))) return category;
+  }
+  return null;
+}
+
+/** Category from the keyword table for free text such as a bank statement description, or null */
+export function suggestCategory(text: string) {
+  return categorize(normalize(text));
+}
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function describe(clause: string, amountMatch: string) {
+  const words = clause
+    .replace(amountMatch, ' ')
+    .split(/\s+/)
+    .filter((word) => {
+      const normalized = normalize(word).replace(/[^\w$]/g, '');
+      return normalized && !FILLER_WORDS.has(normalized) && ![...INCOME_VERBS, ...EXPENSE_VERBS].includes(normalized);
+    });
+  const description = words.join(' ').replace(/^[^\p{L}\d]+|[^\p{L}\d]+$/gu, '');
+  return capitalize(description);
+}
+
+// Matched against lowercased text; "reais" and "R$" need no entry since BRL is the default
+const CURRENCY_PATTERNS: [string, RegExp][] = [
+  ['USD', /u\$|us\$|\busd\b|\bd[oó]lar(?:es)?(?: americanos?)?\b/],
+  ['EUR', /€|\beur\b|\beuros?\b/],
+  ['GBP', /£|\bgbp\b|\blibras?(?: esterlinas?)?\b/],
+  ['ARS', /\bars\b|\bpesos? argentinos?\b|\bpesos\b/],
+];
+
+function findCurrency(clause: string) {
+  const lower = clause.toLowerCase();
+  for (const [currency, pattern] of CURRENCY_PATTERNS) {
+    const match = lower.match(pattern);
+    if (match) return { currency, text: clause.slice(match.index, match.index + match[0].length) };
+  }
+  return null;
+}
+
+// Checked in order, so "cartão de débito" wins over the bare "no cartão" that usually means credit
+const PAYMENT_METHOD_PATTERNS: [PaymentMethod, RegExp][] = [
+  ['debit', /\b(?:n[oa] )?(?:cart[aã]o de )?d[eé]bito\b/],
+  ['credit', /\b(?:n[oa] )?(?:cart[aã]o(?: de cr[eé]dito)?|cr[eé]dito)\b/],
+  ['pix', /\b(?:n[oa] |via |por |pelo )?pix\b/],
+  ['cash', /\b(?:em |no )?dinheiro\b|\bem esp[eé]cie\b/],
+  ['boleto', /\b(?:n[oa] |via |por |pelo )?boleto\b/],
+];
+
+function findPaymentMethod(clause: string) {
+  const lower = clause.toLowerCase();
+  for (const [method, pattern] of PAYMENT_METHOD_PATTERNS) {
+    const match = lower.match(pattern);
+    if (match) return { method, text: clause.slice(match.index, match.index + match[0].length) };
+  }
+  return null;
+}
+
+// "10x de 300" and "10 parcelas de 300" give the installment value; "3000 em 10x" gives the total elsewhere
+const INSTALLMENT_PATTERNS: [RegExp, boolean][] = [
+  [/(?:\b(?:em|parcelad[oa] em|parcelei em)\s+)?\b(\d{1,2})\s*(?:x|vezes|parcelas)\s+(?:de\s+)?(?:r\$\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?:\s*(?:sem|com)\s+juros)?/, true],
+  [/(?:\b(?:em|parcelad[oa] em|parcelei em)\s+)?\b(\d{1,2})\s*(?:x|vezes|parcelas)\b(?:\s*(?:sem|com)\s+juros)?/, false],
+];
+
+function findInstallments(clause: string) {
+  const lower = clause.toLowerCase();
+  for (const [pattern, hasValue] of INSTALLMENT_PATTERNS) {
+    const match = lower.match(pattern);
+    if (!match || !isInstallmentCount(Number(match[1]))) continue;
+    const value = hasValue ? parseBrazilianAmount(match[2]) : null;
+    if (hasValue && value === null) continue;
+    return { count: Number(match[1]), value, text: clause.slice(match.index, match.index + match[0].length) };
+  }
+  return null;
+}
+
+/** The first of `accountNames` mentioned in `clause` ("no nubank", "pelo Itaú"), with its preposition */
+export function findAccountName(clause: string, accountNames: string[]) {
+  const normalized = normalize(clause);
+  // Longest first, so "nubank pj" is not taken for "nubank"
+  for (const name of [...accountNames].sort((a, b) => b.length - a.length)) {
+    const pattern = new RegExp(`(?:(?<![\\w])(?:n[oa]|pel[oa]|d[oa]|com(?: [oa])?)\\s+)?(?<![\\w])${escapeRegExp(normalize(name))}(?![\\w])`);
+    const match = normalized.match(pattern);
+    // normalize() keeps one character per precomposed letter, so the indexes line up with the clause
+    if (match) return { name, text: clause.slice(match.index, match.index + match[0].length) };
+  }
+  return null;
+}
+
+/** The first amount in `text`, e.g. 45.9 for "R$ 45,90" or 2000 for "2 mil" */
+export function findAmount(text: string) {
+  const match = text.match(AMOUNT_PATTERN);
+  const amount = match ? parseBrazilianAmount(match[1]) : null;
+  if (amount === null) return null;
+  return Math.round((match[2] ? amount * 1000 : amount) * 100) / 100;
+}
+
+const WEEKDAYS = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
+
+// Matched against lowercased text with accents kept, so indexes line up with the original clause
+const DATE_PATTERNS: [RegExp, (match: RegExpMatchArray, today: string) => string | null][] = [
+  [/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/, ([, day, month, year], today) => {
+    const fullYear = year ? Number(year.length === 2 ? `20${year}` : year) : Number(today.slice(0, 4));
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > daysInMonth(fullYear, Number(month))) return null;
+    const date = toCalendarDate(fullYear, Number(month), Number(day));
+    // "15/12" sent in January is last December, not eleven months ahead
+    return !year && date > today ? toCalendarDate(fullYear - 1, Number(month), Number(day)) : date;
+  }],
+  [/\b(?:anteontem|antes de ontem)\b/, (_, today) => shiftDate(today, -2)],
+  [/\bontem\b/, (_, today) => shiftDate(today, -1)],
+  [/\bhoje\b/, (_, today) => today],
+  [
+    /(?:(?<![\p{L}\d])(n[ao]|[uú]ltim[ao]|dess?[ae]|nest[ae])\s+)?(?<![\p{L}\d])(segunda|ter[cç]a|quarta|quinta|sexta|s[aá]bado|domingo)(-feira|\s+feira)?(?:\s+(passad[ao]))?(?![\p{L}])/u,
+    ([, prefix, weekday, suffix, past], today) => {
+      // A bare "segunda" is more often "segunda parcela" than a day of the week
+      if (!prefix && !suffix && !past) return null;
+      const target = WEEKDAYS.indexOf(normalize(weekday));
+      const current = new Date(`${today}T12:00:00Z`).getUTCDay();
+      const days = (current - target + 7) % 7 || (past ? 7 : 0);
+      return shiftDate(today, -days);
+    },
+  ],
+  [/\bdia\s+(\d{1,2})\b/, ([, day], today) => {
+    let [year, month] = today.split('-').map(Number);
+    // A day later than today refers to last month
+    if (Number(day) > Number(today.slice(8))) {
+      [year, month] = month === 1 ? [year - 1, 12] : [year, month - 1];
+    }
+    if (Number(day) < 1 || Number(day) > daysInMonth(year, month)) return null;
+    return toCalendarDate(year, month, Number(day));
+  }],
+];
+
+/**
+ * Finds a date such as "ontem", "sexta passada", "dia 10" or "15/10" in
+ * `text` and resolves it relative to `today` (YYYY-MM-DD in the configured time zone).
+ * Returns the matched text too, so callers can strip it before reading amounts.
+ */
+export function parseRelativeDate(text: string, today = calendarDate()): { date: string; text: string } | null {
+  const lower = text.toLowerCase();
+  for (const [pattern, resolve] of DATE_PATTERNS) {
+    const match = lower.match(pattern);
+    if (!match) continue;
+    const date = resolve(match, today);
+    if (date) return { date, text: text.slice(match.index, match.index + match[0].length) };
+  }
+  return null;
+}
+
+function parseClause(text: string, today: string, accountNames: string[]): ExtractedTransaction | null {
+  // Remove the date first, so the day in "dia 10 paguei 80" is not read as the amount
+  const occurred = parseRelativeDate(text, today);
+  let clause = occurred ? text.replace(occurred.text, ' ') : text;
+  // "US$", "dólares", "no pix" and "no cartão Nubank" are not part of the description
+  const currency = findCurrency(clause);
+  if (currency) clause = clause.replace(currency.text, ' ');
+  const payment = findPaymentMethod(clause);
+  if (payment) clause = clause.replace(payment.text, ' ');
+  const account = findAccountName(clause, accountNames);
+  if (account) clause = clause.replace(account.text, ' ');
+  const installments = findInstallments(clause);
+  if (installments) clause = clause.replace(installments.text, ' ');
+
+  let amount: number | null;
+  let amountText = '';
+  if (installments?.value) {
+    amount = installments.value * installments.count;
+  } else {
+    const match = matchClauseAmount(clause);
+    if (!match) return null;
+    amount = parseBrazilianAmount(match[1]);
+    if (amount === null) return null;
+    if (match[2]) amount *= 1000;
+    amountText = match[0];
+  }
+
+  const normalized = normalize(clause);
+  // Match keywords without the amount, so "gastei 99 no mercado" is not a ride on 99
+  const category = categorize(normalize(clause.replace(amountText, ' ')));
+  const isIncome = INCOME_VERBS.some((verb) => containsWord(normalized, verb)) || category === 'salário' || category === 'investimentos';
+  // Only purchases are paid in installments
+  const isExpense = !!installments || EXPENSE_VERBS.some((verb) => containsWord(normalized, verb));
+
+  // A bare number with no verb and no known keyword is too ambiguous to record
+  if (!isIncome && !isExpense && !category) return null;
+
+  const type = isIncome && !isExpense ? 'income' : 'expense';
+  const resolvedCategory = category || (type === 'income' ? 'outras receitas' : 'outros');
+  return {
+    amount: Math.round(amount * 100) / 100,
+    type,
+    category: resolvedCategory,
+    description: describe(clause, amountText) || capitalize(resolvedCategory),
+    currency: currency?.currency || 'BRL',
+    occurred_at: occurred?.date || null,
+    payment_method: payment?.method || null,
+    account: account?.name || null,
+    installments: installments?.count || null,
+    extractor: 'rules',
+  };
+}
+
+/**
+ * Deterministic pt-BR extractor used when Gemini is unavailable, or before it
+ * when EXTRACTOR_MODE=rules-first. Handles messages like "gastei 45 reais com
+ * uber", "recebi 2.500,00 de salário", "ontem paguei R$ 200 de condomínio" and
+ * "comprei 3 camisas por 90" (90, not 3).
+ * Relative dates are resolved against `today`, the message's day in the configured time zone,
+ * and `accountNames` are the accounts and cards a clause may mention.
+ */
+export function parseMessageWithRules(text: string, today = calendarDate(), accountNames: string[] = []): ExtractedTransaction[] {
+  // A date, payment method or account said once ("ontem almocei 30 e paguei 12 de uber no pix") applies to every clause without its own
+  const messageDate = parseRelativeDate(text, today)?.date || null;
+  const messagePayment = findPaymentMethod(text)?.method || null;
+  const messageAccount = findAccountName(text, accountNames)?.name || null;
+  return text
+    .split(/\s+e\s+|;|\n|,\s+(?=\D)/i)
+    .map((clause) => clause.trim())
+    .filter(Boolean)
+    .map((clause) => parseClause(clause, today, accountNames))
+    .filter((transaction): transaction is ExtractedTransaction => transaction !== null)
+    .map((transaction) => ({
+      ...transaction,
+      occurred_at: transaction.occurred_at || messageDate,
+      payment_method: transaction.payment_method || messagePayment,
+      account: transaction.account || messageAccount,
+    }));
+}
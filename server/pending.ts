@@ -0,0 +1,138 @@
+import { MissingField, PendingConfirmation, PendingTransaction } from '../src/types';
+import { Correction } from './corrections';
+import { getTimeZone } from './dates';
+import { formatTransactionAmount } from './format';
+import { amountChanges, BASE_CURRENCY } from './money';
+import { ExtractedTransaction } from './parser';
+import { Storage } from './storage';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export const MISSING_FIELDS: MissingField[] = ['amount', 'type', 'category', 'description'];
+
+const MISSING_FIELD_LABELS: Record<MissingField, string> = {
+  amount: 'valor',
+  type: 'se é entrada ou saída',
+  category: 'categoria',
+  description: 'descrição',
+};
+
+/**
+ * How sure the extractor was about a message: its lowest confidence and every
+ * field it had to guess. The rule-based parser only returns what it fully
+ * read, so its results count as certain.
+ */
+export function reviewExtraction(transactions: ExtractedTransaction[]) {
+  const confidence = Math.min(...transactions.map((t) => (typeof t.confidence === 'number' ? t.confidence : 1)));
+  const missing = MISSING_FIELDS.filter((field) =>
+    transactions.some((t) => t.missing_fields?.includes(field) || (field === 'amount' && !(t.amount > 0)))
+  );
+  return { confidence, missing_fields: missing };
+}
+
+/** Held for confirmation when below the confidence threshold or with any field guessed */
+export function needsConfirmation(review: ReturnType<typeof reviewExtraction>, threshold: number) {
+  return review.confidence < threshold || review.missing_fields.length > 0;
+}
+
+/** "1", "sim" or "confirmar" confirms; "2", "não" or "cancelar" cancels */
+export function parsePendingAnswer(text: string): 'confirm' | 'cancel' | null {
+  const answer = text.trim().toLowerCase().replace(/[.!]+$/, '');
+  if (/^(?:1(?:\s*-\s*confirmar)?|sim|s|ok|confirmar|confirma|confirmo|pode salvar)$/.test(answer)) return 'confirm';
+  if (/^(?:2(?:\s*-\s*cancelar)?|n[aã]o|n|cancelar|cancela|cancelo)$/.test(answer)) return 'cancel';
+  return null;
+}
+
+/**
+ * Fills a correction such as "valor: 45" into the held transactions; answered
+ * fields are no longer missing. With several transactions the item number is
+ * required, as in "2 - valor: 45". Returns null when that item does not exist.
+ */
+export function applyPendingCorrection(pending: PendingConfirmation, correction: Correction) {
+  const index = pending.transactions.length > 1 ? (correction.item || 0) - 1 : 0;
+  const target = pending.transactions[index];
+  if (!target) return null;
+
+  const { amount, ...changes } = correction.changes;
+  const corrected: PendingTransaction = {
+    ...target,
+    ...changes,
+    // A corrected amount is in the currency the transaction was made in
+    ...(amount !== undefined ? amountChanges(target, amount) : {}),
+  };
+  const answered = Object.keys(correction.changes);
+  return {
+    transactions: pending.transactions.map((t, i) => (i === index ? corrected : t)),
+    missing_fields: pending.missing_fields.filter((field) => !answered.includes(field)),
+  };
+}
+
+/** A confirmation cannot save a transaction without a value */
+export function hasMissingAmount(pending: Pick<PendingConfirmation, 'transactions'>) {
+  return pending.transactions.some((t) => !(t.amount > 0));
+}
+
+function describe(transaction: PendingTransaction) {
+  const icon = transaction.type === 'income' ? '✅' : '🔻';
+  const amount = transaction.amount > 0
+    ? formatTransactionAmount({ ...transaction, currency: transaction.currency || BASE_CURRENCY })
+    : 'valor ?';
+  const installments = transaction.installments ? ` · ${transaction.installments}x` : '';
+  return `${icon} ${amount} · ${transaction.category} · ${transaction.description}${installments}`;
+}
+
+export function formatPendingQuestion(pending: PendingConfirmation) {
+  const lines = pending.transactions.length === 1
+    ? [describe(pending.transactions[0])]
+    : pending.transactions.map((t, index) => `${index + 1}. ${describe(t)}`);
+  const expiresAt = new Date(pending.expires_at).toLocaleTimeString('pt-BR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: getTimeZone(),
+  });
+  return [
+    '🤔 Não tenho certeza se entendi:',
+    ...lines,
+    ...(pending.missing_fields.length > 0
+      ? [`❓ Faltou: ${pending.missing_fields.map((field) => MISSING_FIELD_LABELS[field]).join(', ')}`]
+      : []),
+    '',
+    'Responda:',
+    '1 - confirmar',
+    '2 - cancelar',
+    `Ou complete o que faltou, ex: "${pending.transactions.length > 1 ? '1 - ' : ''}valor: 45" ou "categoria: transporte".`,
+    `⌛ Aguardo até ${expiresAt}.`,
+  ].join('\n');
+}
+
+export function formatPendingExpired(pending: PendingConfirmation) {
+  return `⌛ O tempo para confirmar acabou e nada foi registrado:\n${pending.transactions.map(describe).join('\n')}\n\nEnvie a mensagem de novo se quiser registrar.`;
+}
+
+/** Expires every confirmation past its deadline; resolves to the ones expired now */
+export async function expirePendingConfirmations(storage: Storage, now = new Date()) {
+  const expired: PendingConfirmation[] = [];
+  for (const pending of await storage.pending.list('pending', 500)) {
+    if (new Date(pending.expires_at) > now) continue;
+    const resolved = await storage.pending.resolve(pending.id, 'expired', now.toISOString());
+    if (resolved) expired.push(resolved);
+  }
+  return expired;
+}
+
+export function startPendingExpiry(storage: Storage, onExpired: (pending: PendingConfirmation) => Promise<void>) {
+  const run = async () => {
+    try {
+      for (const pending of await expirePendingConfirmations(storage)) {
+        console.log(`Pending confirmation ${pending.id} expired`);
+        await onExpired(pending);
+      }
+    } catch (error) {
+      console.error('Pending expiry error:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, SCHEDULER_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,106 @@
+import { WebhookJob } from '../src/types';
+import { JobRepository } from './storage';
+
+export interface JobWorkerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  /** Delay before the first retry; each further retry doubles it */
+  baseDelayMs?: number;
+  /** How long done jobs are kept, so redelivered WAHA messages are still recognized as duplicates */
+  retentionMs?: number;
+}
+
+export interface JobWorker {
+  /** Runs a polling cycle now instead of waiting for the next interval */
+  wake(): void;
+  stop(): void;
+}
+
+export function retryDelayMs(attempts: number, baseDelayMs: number) {
+  return baseDelayMs * 2 ** Math.max(0, attempts - 1);
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function startJobWorker(
+  jobs: JobRepository,
+  handler: (job: WebhookJob) => Promise<void>,
+  { intervalMs = 2000, batchSize = 5, maxAttempts = 6, baseDelayMs = 5000, retentionMs = 7 * 24 * 60 * 60 * 1000 }: JobWorkerOptions = {}
+): Promise<JobWorker> {
+  let running = false;
+  // Jobs whose handler succeeded but that could not be marked done yet; they are never run again
+  const unmarked = new Set<string>();
+
+  async function markDone(id: string) {
+    try {
+      await jobs.update(id, { status: 'done', last_error: null });
+      unmarked.delete(id);
+    } catch (error) {
+      unmarked.add(id);
+      console.error(`Job ${id} succeeded but could not be marked done:`, error);
+    }
+  }
+
+  async function runJob(job: WebhookJob) {
+    try {
+      await handler(job);
+    } catch (error: any) {
+      const attempts = job.attempts + 1;
+      const lastError = error?.message || String(error);
+
+      if (attempts >= maxAttempts) {
+        console.error(`Job ${job.id} moved to dead-letter after ${attempts} attempts:`, lastError);
+        await jobs.update(job.id, { status: 'dead', attempts, last_error: lastError });
+      } else {
+        const nextAttemptAt = new Date(Date.now() + retryDelayMs(attempts, baseDelayMs)).toISOString();
+        console.error(`Job ${job.id} failed (attempt ${attempts}), retrying at ${nextAttemptAt}:`, lastError);
+        await jobs.update(job.id, { status: 'pending', attempts, last_error: lastError, next_attempt_at: nextAttemptAt });
+      }
+      return;
+    }
+    // Outside the try above: the transactions and replies are out, so a failed update must not retry the job
+    await markDone(job.id);
+  }
+
+  async function tick() {
+    if (running) return;
+    running = true;
+    try {
+      for (const id of [...unmarked]) await markDone(id);
+      const due = await jobs.claimDue(new Date().toISOString(), batchSize);
+      for (const job of due) {
+        await runJob(job);
+      }
+    } catch (error) {
+      console.error('Job worker error:', error);
+    } finally {
+      running = false;
+    }
+  }
+
+  async function prune() {
+    try {
+      const pruned = await jobs.pruneFinished(new Date(Date.now() - retentionMs).toISOString());
+      if (pruned > 0) console.log(`Pruned ${pruned} finished webhook jobs`);
+    } catch (error) {
+      console.error('Job pruning error:', error);
+    }
+  }
+
+  // Jobs left in processing were interrupted by a restart, so they are safe to pick up again
+  await jobs.releaseStale();
+  void prune();
+  const timer = setInterval(tick, intervalMs);
+  const pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+
+  return {
+    wake: () => {
+      void tick();
+    },
+    stop: () => {
+      clearInterval(timer);
+      clearInterval(pruneTimer);
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import { RecurringRule, ScheduledEntry, Transaction } from '../src/types';
+import { calendarDate, calendarDateToTimestamp, dayRangeBounds, daysInMonth, toCalendarDate } from './dates';
+import { parseMessageWithRules } from './parser';
+import { NewRecurringRule, Storage } from './storage';
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+const RECURRING_PATTERN = /\b(?:todo|todos os|toda)\s+(?:m[eê]s\s+)?(?:no\s+)?dia\s+(\d{1,2})\b/i;
+const END_DATE_PATTERN = /\bat[eé]\s+(\d{1,2})\/(\d{4})\b/i;
+
+function addMonth(year: number, month: number) {
+  return month === 12 ? [year + 1, 1] : [year, month + 1];
+}
+
+/** Occurrence dates of a rule after `afterDate` (exclusive) and up to `untilDate` (inclusive) */
+export function occurrencesBetween(rule: RecurringRule, afterDate: string | null, untilDate: string): string[] {
+  const from = afterDate && afterDate >= rule.start_date ? afterDate : null;
+  const until = rule.end_date && rule.end_date < untilDate ? rule.end_date : untilDate;
+  const dates: string[] = [];
+
+  let [year, month] = (from || rule.start_date).split('-').map(Number);
+  while (toCalendarDate(year, month, 1) <= until) {
+    const date = toCalendarDate(year, month, Math.min(rule.day_of_month, daysInMonth(year, month)));
+    if (date >= rule.start_date && (!from || date > from) && date <= until) {
+      dates.push(date);
+    }
+    [year, month] = addMonth(year, month);
+  }
+  return dates;
+}
+
+/**
+ * Parses "todo dia 10 pago 200 de condomínio" or "todo mês dia 5 recebo 3000 de
+ * salário até 12/2027" into a rule that starts at the next occurrence after the
+ * day the message was received.
+ */
+export function parseRecurringRule(text: string, whatsappFrom: string, receivedAt = new Date()): NewRecurringRule | null {
+  const today = calendarDate(receivedAt);
+  const recurring = text.match(RECURRING_PATTERN);
+  if (!recurring) return null;
+
+  const day = parseInt(recurring[1], 10);
+  if (day < 1 || day > 31) return null;
+
+  let endDate: string | null = null;
+  const end = text.match(END_DATE_PATTERN);
+  if (end) {
+    const [endMonth, endYear] = [parseInt(end[1], 10), parseInt(end[2], 10)];
+    if (endMonth >= 1 && endMonth <= 12) endDate = toCalendarDate(endYear, endMonth, daysInMonth(endYear, endMonth));
+  }
+
+  // "pago"/"recebo" are present tense here, so map them onto the verbs the parser knows
+  const remainder = text
+    .replace(recurring[0], ' ')
+    .replace(END_DATE_PATTERN, ' ')
+    .replace(/\brecebo\b/i, 'recebi')
+    .replace(/\bpago\b/i, 'paguei');
+  const [transaction] = parseMessageWithRules(remainder, today);
+  if (!transaction) return null;
+
+  return {
+    amount: transaction.amount,
+    type: transaction.type,
+    category: transaction.category,
+    description: transaction.description,
+    day_of_month: day,
+    start_date: today,
+    end_date: endDate,
+    whatsapp_from: whatsappFrom,
+  };
+}
+
+export function nextOccurrence(rule: RecurringRule, today = calendarDate()) {
+  const yesterday = calendarDate(new Date(new Date(`${today}T12:00:00Z`).getTime() - 24 * 60 * 60 * 1000));
+  const after = rule.last_generated_on && rule.last_generated_on > yesterday ? rule.last_generated_on : yesterday;
+  const [year] = today.split('-').map(Number);
+  return occurrencesBetween(rule, after, `${year + 2}-12-31`)[0] || null;
+}
+
+/** Entries not yet written to transactions, from today up to `untilDate` */
+export async function listScheduledEntries(storage: Storage, untilDate: string, today = calendarDate()): Promise<ScheduledEntry[]> {
+  const rules = await storage.recurring.list();
+  const entries: ScheduledEntry[] = [];
+
+  for (const rule of rules) {
+    for (const date of occurrencesBetween(rule, rule.last_generated_on || null, untilDate)) {
+      if (date < today) continue;
+      entries.push({
+        rule_id: rule.id,
+        date,
+        amount: rule.amount,
+        type: rule.type,
+        category: rule.category,
+        description: rule.description,
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Writes every occurrence due up to today, catching up on months the server was
+ * down. Occurrences already written are skipped, so a run interrupted between
+ * the insert and advancing `last_generated_on` does not duplicate them.
+ */
+export async function materializeDueRules(storage: Storage, today = calendarDate()) {
+  const created: { rule: RecurringRule; transactions: Transaction[] }[] = [];
+
+  for (const rule of await storage.recurring.list()) {
+    const dates = occurrencesBetween(rule, rule.last_generated_on || null, today);
+    if (dates.length === 0) continue;
+
+    const existing = await storage.transactions.list({
+      recurringRuleId: rule.id,
+      ...dayRangeBounds(dates[0], dates[dates.length - 1]),
+    });
+    const written = new Set(existing.map((t) => calendarDate(new Date(t.occurred_at))));
+    const missing = dates.filter((date) => !written.has(date));
+
+    const transactions = await storage.transactions.insert(
+      missing.map((date) => ({
+        amount: rule.amount,
+        type: rule.type,
+        category: rule.category,
+        description: rule.description,
+        ...(rule.whatsapp_from ? { whatsapp_from: rule.whatsapp_from } : {}),
+        recurring_rule_id: rule.id,
+        occurred_at: calendarDateToTimestamp(date),
+      }))
+    );
+    await storage.recurring.setLastGenerated(rule.id, dates[dates.length - 1]);
+    if (transactions.length > 0) created.push({ rule, transactions });
+  }
+
+  return created;
+}
+
+export function startRecurringScheduler(
+  storage: Storage,
+  onCreated: (rule: RecurringRule, transactions: Transaction[]) => Promise<void>
+) {
+  const run = async () => {
+    try {
+      for (const { rule, transactions } of await materializeDueRules(storage)) {
+        console.log(`Recurring rule ${rule.id} created ${transactions.length} transaction(s)`);
+        await onCreated(rule, transactions);
+      }
+    } catch (error) {
+      console.error('Recurring scheduler error:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, SCHEDULER_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
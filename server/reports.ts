@@ -0,0 +1,201 @@
+import { MonthlyReport, MonthlyReportSummary, Transaction } from '../src/types';
+import { formatPeriod, periodBounds, periodOf, shiftPeriod } from './dates';
+import { formatDate, formatMoney } from './format';
+import { addAmounts, sumAmounts } from './money';
+import { Storage } from './storage';
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+const TOP_CATEGORIES = 5;
+const BIGGEST_EXPENSES = 5;
+
+function totals(rows: Transaction[]) {
+  const income = sumAmounts(rows.filter((t) => t.type === 'income').map((t) => t.amount));
+  const expenses = sumAmounts(rows.filter((t) => t.type === 'expense').map((t) => t.amount));
+  return { income, expenses, balance: addAmounts(income, -expenses) };
+}
+
+async function transactionsInPeriod(storage: Storage, period: string, whatsappFrom?: string) {
+  return storage.transactions.list({ ...periodBounds(period), whatsappFrom, ascending: true });
+}
+
+export async function buildMonthlyReport(storage: Storage, whatsappFrom: string, period: string): Promise<MonthlyReportSummary> {
+  const [current, previous] = await Promise.all([
+    transactionsInPeriod(storage, period, whatsappFrom),
+    transactionsInPeriod(storage, shiftPeriod(period, -1), whatsappFrom),
+  ]);
+
+  const { income, expenses, balance } = totals(current);
+  const expenseRows = current.filter((t) => t.type === 'expense');
+
+  const byCategory = new Map<string, number>();
+  for (const t of expenseRows) {
+    byCategory.set(t.category, addAmounts(byCategory.get(t.category) || 0, t.amount));
+  }
+
+  return {
+    period,
+    whatsapp_from: whatsappFrom,
+    income,
+    expenses,
+    balance,
+    transaction_count: current.length,
+    top_categories: [...byCategory.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_CATEGORIES)
+      .map(([category, amount]) => ({ category, amount, percentage: expenses > 0 ? (amount / expenses) * 100 : 0 })),
+    biggest_expenses: [...expenseRows]
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, BIGGEST_EXPENSES)
+      .map(({ occurred_at, amount, category, description }) => ({ occurred_at, amount, category, description })),
+    previous: previous.length > 0 ? totals(previous) : null,
+  };
+}
+
+function percentChange(current: number, previous: number) {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+function formatChange(current: number, previous: number | undefined) {
+  if (previous === undefined) return '';
+  const change = percentChange(current, previous);
+  if (change === null) return '';
+  return ` (${change >= 0 ? '+' : ''}${change.toFixed(0)}% vs mês anterior)`;
+}
+
+export function renderReportText(summary: MonthlyReportSummary) {
+  const lines = [
+    `📊 *Relatório de ${formatPeriod(summary.period)}*`,
+    '',
+    `✅ Entradas: ${formatMoney(summary.income)}${formatChange(summary.income, summary.previous?.income)}`,
+    `🔻 Saídas: ${formatMoney(summary.expenses)}${formatChange(summary.expenses, summary.previous?.expenses)}`,
+    `💰 Saldo: ${formatMoney(summary.balance)}`,
+  ];
+
+  if (summary.previous) {
+    lines.push(`↔️ Saldo do mês anterior: ${formatMoney(summary.previous.balance)}`);
+  }
+  if (summary.top_categories.length > 0) {
+    lines.push('', '📂 *Principais categorias*');
+    for (const item of summary.top_categories) {
+      lines.push(`• ${item.category}: ${formatMoney(item.amount)} (${item.percentage.toFixed(0)}%)`);
+    }
+  }
+  if (summary.biggest_expenses.length > 0) {
+    lines.push('', '💸 *Maiores gastos*');
+    for (const item of summary.biggest_expenses) {
+      lines.push(`• ${formatDate(item.occurred_at || item.created_at)} ${formatMoney(item.amount)} · ${item.description}`);
+    }
+  }
+  if (summary.transaction_count === 0) {
+    lines.push('', 'Nenhuma transação registrada neste mês.');
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+}
+
+function htmlMoney(value: number) {
+  return escapeHtml(value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }));
+}
+
+/** Standalone printable page; browsers save it as PDF through the print dialog */
+export function renderReportHtml(summary: MonthlyReportSummary) {
+  const title = `Relatório de ${formatPeriod(summary.period)}`;
+  const change = (current: number, previous: number | undefined) => {
+    const value = previous === undefined ? null : percentChange(current, previous);
+    return value === null ? '' : `<span class="change">${value >= 0 ? '+' : ''}${value.toFixed(0)}% vs mês anterior</span>`;
+  };
+
+  const categoryRows = summary.top_categories
+    .map((item) => `<tr><td>${escapeHtml(item.category)}</td><td class="num">${htmlMoney(item.amount)}</td><td class="num">${item.percentage.toFixed(0)}%</td></tr>`)
+    .join('');
+  const expenseRows = summary.biggest_expenses
+    .map((item) => `<tr><td>${escapeHtml(formatDate(item.occurred_at || item.created_at))}</td><td>${escapeHtml(item.description)}</td><td>${escapeHtml(item.category)}</td><td class="num">${htmlMoney(item.amount)}</td></tr>`)
+    .join('');
+
+  return `<!doctype html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1a1a1a; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+  h1 { margin-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; margin: 24px 0; }
+  .card { border: 1px solid #e5e7eb; border-radius: 16px; padding: 16px; }
+  .card p { margin: 0; font-size: 12px; text-transform: uppercase; color: #6b7280; }
+  .card strong { display: block; font-size: 22px; margin-top: 4px; }
+  .income { color: #059669; } .expense { color: #dc2626; }
+  .change { display: block; font-size: 11px; color: #6b7280; margin-top: 4px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; font-size: 14px; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #f3f4f6; }
+  th { font-size: 11px; text-transform: uppercase; color: #6b7280; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  button { background: #059669; color: white; border: 0; border-radius: 12px; padding: 10px 16px; font-weight: bold; cursor: pointer; }
+  @media print { button { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="muted">${escapeHtml(summary.whatsapp_from)} · ${summary.transaction_count} transações · gerado em ${escapeHtml(formatDate(new Date().toISOString()))}</p>
+  <div class="cards">
+    <div class="card"><p>Entradas</p><strong class="income">${htmlMoney(summary.income)}</strong>${change(summary.income, summary.previous?.income)}</div>
+    <div class="card"><p>Saídas</p><strong class="expense">${htmlMoney(summary.expenses)}</strong>${change(summary.expenses, summary.previous?.expenses)}</div>
+    <div class="card"><p>Saldo</p><strong>${htmlMoney(summary.balance)}</strong>${summary.previous ? `<span class="change">Mês anterior: ${htmlMoney(summary.previous.balance)}</span>` : ''}</div>
+  </div>
+  <h2>Principais categorias</h2>
+  <table><thead><tr><th>Categoria</th><th class="num">Valor</th><th class="num">Participação</th></tr></thead><tbody>${categoryRows || '<tr><td colspan="3" class="muted">Sem gastos</td></tr>'}</tbody></table>
+  <h2>Maiores gastos</h2>
+  <table><thead><tr><th>Data</th><th>Descrição</th><th>Categoria</th><th class="num">Valor</th></tr></thead><tbody>${expenseRows || '<tr><td colspan="4" class="muted">Sem gastos</td></tr>'}</tbody></table>
+  <button onclick="window.print()">Imprimir / Salvar PDF</button>
+</body>
+</html>`;
+}
+
+/** Builds and stores the report of `period` for every sender with activity, skipping ones already generated */
+export async function generateMonthlyReports(storage: Storage, period: string) {
+  const senders = new Set(
+    (await transactionsInPeriod(storage, period))
+      .map((t) => t.whatsapp_from)
+      .filter((from): from is string => !!from)
+  );
+
+  const created: MonthlyReport[] = [];
+  for (const whatsappFrom of senders) {
+    if (await storage.reports.find(whatsappFrom, period)) continue;
+    const summary = await buildMonthlyReport(storage, whatsappFrom, period);
+    created.push(await storage.reports.insert({ whatsapp_from: whatsappFrom, period, summary }));
+  }
+  return created;
+}
+
+/**
+ * From the first day of each month, reports for the previous month are
+ * generated and handed to `send` until it succeeds; polling hourly catches
+ * up after downtime or a failed delivery.
+ */
+export function startReportScheduler(storage: Storage, send: (report: MonthlyReport) => Promise<boolean>) {
+  const run = async () => {
+    try {
+      const period = shiftPeriod(periodOf(), -1);
+      await generateMonthlyReports(storage, period);
+      const unsent = (await storage.reports.list()).filter((report) => report.period === period && !report.sent_at);
+      for (const report of unsent) {
+        if (await send(report)) {
+          await storage.reports.markSent(report.id, new Date().toISOString());
+        }
+      }
+    } catch (error) {
+      console.error('Report scheduler error:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, SCHEDULER_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
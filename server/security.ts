@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface SenderAllowlist {
+  phones: Set<string>;
+  chats: Set<string>;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The JSON body exactly as received, kept for the WAHA HMAC check */
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const SUPPORTED_ALGORITHMS = ['sha512', 'sha256'];
+
+/**
+ * Checks the X-Webhook-Hmac header WAHA sends when the webhook has an HMAC key:
+ * a hex digest of the raw request body, sha512 unless X-Webhook-Hmac-Algorithm says otherwise.
+ * Returns why the request was rejected, or null when the signature is valid.
+ */
+export function verifyWahaSignature(
+  rawBody: Buffer | undefined,
+  headers: Record<string, string | string[] | undefined>,
+  secret: string
+): string | null {
+  const signature = headers['x-webhook-hmac'];
+  const algorithm = String(headers['x-webhook-hmac-algorithm'] || 'sha512').toLowerCase();
+
+  if (typeof signature !== 'string' || !signature) return 'missing X-Webhook-Hmac header';
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) return `unsupported HMAC algorithm "${algorithm}"`;
+  if (!rawBody) return 'missing request body';
+
+  const expected = createHmac(algorithm, secret).update(rawBody).digest();
+  const received = Buffer.from(signature, 'hex');
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return 'HMAC signature mismatch';
+  }
+  return null;
+}
+
+/** Parses "5511999999999, +55 11 98888-7777, 1203630xxxx@g.us" into phone numbers and chat ids */
+export function parseAllowlist(value: string | undefined): SenderAllowlist | null {
+  const entries = (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const allowlist: SenderAllowlist = { phones: new Set(), chats: new Set() };
+  for (const entry of entries) {
+    if (entry.includes('@')) {
+      allowlist.chats.add(entry.toLowerCase());
+    } else {
+      allowlist.phones.add(entry.replace(/\D/g, ''));
+    }
+  }
+  return allowlist;
+}
+
+function phoneOf(chatId: string | undefined) {
+  return chatId && /@(c\.us|s\.whatsapp\.net)$/.test(chatId) ? chatId.split('@')[0].replace(/\D/g, '') : null;
+}
+
+/**
+ * An empty allowlist (null) accepts everyone. Otherwise a direct chat must be
+ * listed by chat id or phone number, and a group by its own chat id: a listed
+ * participant does not let in every group they are part of.
+ */
+export function isSenderAllowed(message: { from?: string; participant?: string }, allowlist: SenderAllowlist | null) {
+  if (!allowlist) return true;
+
+  const chatId = (message.from || '').toLowerCase();
+  if (allowlist.chats.has(chatId)) return true;
+  if (chatId.endsWith('@g.us')) return false;
+
+  const phone = phoneOf(message.from);
+  return !!phone && allowlist.phones.has(phone);
+}
@@ -0,0 +1,116 @@
+import { CashFlowBucket, CashFlowGranularity, DashboardStats, PeriodTotals, Transaction } from '../src/types';
+import { getCurrentBalance } from './accounts';
+import { calendarDate, dayRangeBounds, daysBetween, daysInMonth, shiftDate, shiftPeriod, toCalendarDate } from './dates';
+import { addAmounts, sumAmounts } from './money';
+import { Storage } from './storage';
+
+function sumTotals(rows: Transaction[]) {
+  const totalIncome = sumAmounts(rows.filter((t) => t.type === 'income').map((t) => t.amount));
+  const totalExpenses = sumAmounts(rows.filter((t) => t.type === 'expense').map((t) => t.amount));
+  return { totalIncome, totalExpenses, balance: addAmounts(totalIncome, -totalExpenses), transactionCount: rows.length };
+}
+
+function isWholeMonth(since: string, until: string) {
+  const [year, month] = since.split('-').map(Number);
+  return since.endsWith('-01') && until === toCalendarDate(year, month, daysInMonth(year, month));
+}
+
+/**
+ * The period to compare against: the previous calendar month when the range
+ * is exactly one month (so October compares with all of September), otherwise
+ * the same number of days immediately before `since`.
+ */
+export function previousRange(since: string, until: string) {
+  if (isWholeMonth(since, until)) {
+    const [year, month] = shiftPeriod(since.slice(0, 7), -1).split('-').map(Number);
+    return { since: toCalendarDate(year, month, 1), until: toCalendarDate(year, month, daysInMonth(year, month)) };
+  }
+  const length = daysBetween(since, until) + 1;
+  return { since: shiftDate(since, -length), until: shiftDate(since, -1) };
+}
+
+async function periodTotals(storage: Storage, since: string, until: string): Promise<PeriodTotals & { rows: Transaction[] }> {
+  const rows = await storage.transactions.list(dayRangeBounds(since, until));
+  return { since, until, ...sumTotals(rows), rows };
+}
+
+/** Aggregates the dashboard cards and charts for the inclusive YYYY-MM-DD range */
+export async function getDashboardStats(storage: Storage, since: string, until: string): Promise<DashboardStats> {
+  const previous = previousRange(since, until);
+  const [current, before, currentBalance] = await Promise.all([
+    periodTotals(storage, since, until),
+    periodTotals(storage, previous.since, previous.until),
+    getCurrentBalance(storage),
+  ]);
+
+  const byCategory = new Map<string, number>();
+  for (const t of current.rows.filter((row) => row.type === 'expense')) {
+    byCategory.set(t.category, addAmounts(byCategory.get(t.category) || 0, t.amount));
+  }
+
+  const { rows, ...totals } = current;
+  const { rows: previousRows, ...previousTotals } = before;
+  return {
+    ...totals,
+    previous: previousTotals,
+    categories: [...byCategory.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([category, amount]) => ({
+        category,
+        amount,
+        percentage: totals.totalExpenses > 0 ? (amount / totals.totalExpenses) * 100 : 0,
+      })),
+    currentBalance,
+  };
+}
+
+export const CASH_FLOW_GRANULARITIES: CashFlowGranularity[] = ['day', 'week', 'month'];
+
+// Ten years of days keeps the bucket loop cheap
+export const MAX_CASH_FLOW_DAYS = 3660;
+
+// Weeks start on Monday, as on Brazilian calendars
+function bucketStart(date: string, granularity: CashFlowGranularity) {
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+  if (granularity === 'week') {
+    const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+    return shiftDate(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+/** Income and expenses per day, week or month of the inclusive range, with a running balance line */
+export async function getCashFlow(
+  storage: Storage,
+  since: string,
+  until: string,
+  granularity: CashFlowGranularity
+): Promise<CashFlowBucket[]> {
+  const bounds = dayRangeBounds(since, until);
+  const [rows, before] = await Promise.all([
+    storage.transactions.list({ ...bounds, ascending: true }),
+    // Only the sum of the history before the range matters, not its rows
+    storage.transactions.totals({ until: bounds.since }),
+  ]);
+
+  const buckets = new Map<string, CashFlowBucket>();
+  for (let day = since; day <= until; day = shiftDate(day, 1)) {
+    const key = bucketStart(day, granularity);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.until = day;
+    else buckets.set(key, { since: day, until: day, income: 0, expenses: 0, balance: 0 });
+  }
+
+  for (const t of rows) {
+    const bucket = buckets.get(bucketStart(calendarDate(new Date(t.occurred_at)), granularity));
+    if (!bucket) continue;
+    if (t.type === 'income') bucket.income = addAmounts(bucket.income, t.amount);
+    else bucket.expenses = addAmounts(bucket.expenses, t.amount);
+  }
+
+  let balance = addAmounts(before.income, -before.expenses);
+  return [...buckets.values()].map((bucket) => {
+    balance = addAmounts(balance, bucket.income, -bucket.expenses);
+    return { ...bucket, balance };
+  });
+}
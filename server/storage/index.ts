@@ -0,0 +1,19 @@
+import { createSqliteStorage } from './sqlite';
+import { createSupabaseStorage } from './supabase';
+import { Storage } from './types';
+
+export * from './types';
+export { getAttachmentsDir, verifyAttachmentLink } from './sqlite';
+
+export function createStorage(): Storage {
+  const driver = process.env.STORAGE_DRIVER || 'supabase';
+
+  switch (driver) {
+    case 'supabase':
+      return createSupabaseStorage();
+    case 'sqlite':
+      return createSqliteStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "supabase" or "sqlite")`);
+  }
+}
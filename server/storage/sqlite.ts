@@ -0,0 +1,1089 @@
+import Database from 'better-sqlite3';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Account, Budget, Category, ExchangeRate, GroupMember, InboundMessage, InstallmentPurchase, MerchantRule, MonthlyReport, PendingConfirmation, RecurringRule, SplitEntry, Transaction, Transfer, WebhookJob } from '../../src/types';
+import {
+  AccountRepository,
+  AttachmentStore,
+  BudgetRepository,
+  CategoryRepository,
+  ExchangeRateRepository,
+  GroupRepository,
+  InboundMessageRepository,
+  InstallmentPurchaseRepository,
+  JobRepository,
+  MerchantRuleRepository,
+  PendingConfirmationRepository,
+  RecurringRuleRepository,
+  ReportRepository,
+  Storage,
+  TransactionChanges,
+  TransactionRepository,
+  TransferRepository,
+} from './types';
+
+// Default taxonomy, matching the keyword table of the rule-based parser
+const CATEGORY_SEED_SQL = `
+  select 'alimentação' as name, 'expense' as type, '🍽️' as icon, '#10b981' as color
+  union all select 'transporte', 'expense', '🚗', '#3b82f6'
+  union all select 'moradia', 'expense', '🏠', '#f59e0b'
+  union all select 'saúde', 'expense', '💊', '#ef4444'
+  union all select 'educação', 'expense', '📚', '#8b5cf6'
+  union all select 'lazer', 'expense', '🎉', '#ec4899'
+  union all select 'compras', 'expense', '🛍️', '#06b6d4'
+  union all select 'assinaturas', 'expense', '📺', '#6366f1'
+  union all select 'outros', 'expense', '📦', '#94a3b8'
+  union all select 'salário', 'income', '💼', '#059669'
+  union all select 'investimentos', 'income', '📈', '#0ea5e9'
+  union all select 'outras receitas', 'income', '💰', '#84cc16'`;
+
+// Free-text categories seen before the taxonomy existed, lowercased
+const CATEGORY_ALIASES_SQL = `
+  ('alimentação', 'alimentação'), ('alimentacao', 'alimentação'), ('comida', 'alimentação'), ('restaurante', 'alimentação'),
+  ('restaurantes', 'alimentação'), ('mercado', 'alimentação'), ('supermercado', 'alimentação'), ('lanche', 'alimentação'),
+  ('refeição', 'alimentação'), ('refeicao', 'alimentação'), ('padaria', 'alimentação'), ('delivery', 'alimentação'),
+  ('ifood', 'alimentação'), ('transporte', 'transporte'), ('uber', 'transporte'), ('combustível', 'transporte'),
+  ('combustivel', 'transporte'), ('gasolina', 'transporte'), ('táxi', 'transporte'), ('taxi', 'transporte'),
+  ('carro', 'transporte'), ('moradia', 'moradia'), ('casa', 'moradia'), ('aluguel', 'moradia'), ('contas', 'moradia'),
+  ('condomínio', 'moradia'), ('condominio', 'moradia'), ('energia', 'moradia'), ('internet', 'moradia'),
+  ('saúde', 'saúde'), ('saude', 'saúde'), ('farmácia', 'saúde'), ('farmacia', 'saúde'), ('médico', 'saúde'),
+  ('medico', 'saúde'), ('academia', 'saúde'), ('educação', 'educação'), ('educacao', 'educação'), ('escola', 'educação'),
+  ('curso', 'educação'), ('cursos', 'educação'), ('livros', 'educação'), ('lazer', 'lazer'), ('entretenimento', 'lazer'),
+  ('diversão', 'lazer'), ('diversao', 'lazer'), ('viagem', 'lazer'), ('viagens', 'lazer'), ('compras', 'compras'),
+  ('vestuário', 'compras'), ('vestuario', 'compras'), ('roupas', 'compras'), ('eletrônicos', 'compras'),
+  ('eletronicos', 'compras'), ('assinaturas', 'assinaturas'), ('assinatura', 'assinaturas'), ('streaming', 'assinaturas'),
+  ('outros', 'outros'), ('outro', 'outros'), ('diversos', 'outros'), ('salário', 'salário'), ('salario', 'salário'),
+  ('renda', 'salário'), ('investimentos', 'investimentos'), ('investimento', 'investimentos'),
+  ('rendimentos', 'investimentos'), ('dividendos', 'investimentos'), ('outras receitas', 'outras receitas'),
+  ('receita', 'outras receitas'), ('receitas', 'outras receitas'), ('reembolso', 'outras receitas'),
+  ('freelance', 'outras receitas'), ('vendas', 'outras receitas')`;
+
+// Applied in order; PRAGMA user_version records how many have already run
+const MIGRATIONS = [
+  `create table transactions (
+    id text primary key,
+    created_at text not null,
+    amount real not null,
+    type text not null check (type in ('income', 'expense')),
+    category text not null,
+    description text not null,
+    raw_text text,
+    whatsapp_from text,
+    attachment_url text,
+    confirmation_message_id text
+  );
+  create index transactions_created_at_idx on transactions (created_at);
+  create index transactions_whatsapp_from_idx on transactions (whatsapp_from);
+  create index transactions_confirmation_message_id_idx on transactions (confirmation_message_id);`,
+  `alter table transactions add column extractor text;`,
+  `create table webhook_jobs (
+    id text primary key,
+    message_id text not null unique,
+    payload text not null,
+    status text not null default 'pending',
+    attempts integer not null default 0,
+    next_attempt_at text not null,
+    last_error text,
+    created_at text not null,
+    updated_at text not null
+  );
+  create index webhook_jobs_status_next_attempt_idx on webhook_jobs (status, next_attempt_at);`,
+  `create table budgets (
+    id text primary key,
+    category text not null unique collate nocase,
+    monthly_limit real not null check (monthly_limit > 0),
+    created_at text not null
+  );`,
+  `create table recurring_rules (
+    id text primary key,
+    amount real not null,
+    type text not null check (type in ('income', 'expense')),
+    category text not null,
+    description text not null,
+    day_of_month integer not null check (day_of_month between 1 and 31),
+    start_date text not null,
+    end_date text,
+    last_generated_on text,
+    whatsapp_from text,
+    created_at text not null
+  );
+  alter table transactions add column recurring_rule_id text references recurring_rules (id) on delete set null;`,
+  `create table monthly_reports (
+    id text primary key,
+    whatsapp_from text not null,
+    period text not null,
+    summary text not null,
+    sent_at text,
+    created_at text not null,
+    unique (whatsapp_from, period)
+  );`,
+  `alter table transactions add column external_id text;
+  create index transactions_external_id_idx on transactions (external_id);`,
+  `create table categories (
+    id text primary key,
+    name text not null unique collate nocase,
+    parent_id text references categories (id) on delete cascade,
+    type text not null check (type in ('income', 'expense')),
+    icon text,
+    color text,
+    created_at text not null
+  );
+  create table merchant_rules (
+    id text primary key,
+    pattern text not null unique,
+    category text not null,
+    created_at text not null
+  );
+  insert into categories (id, name, type, icon, color, created_at)
+  select lower(hex(randomblob(16))), name, type, icon, color, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  from (${CATEGORY_SEED_SQL});
+  create temp table category_aliases (alias text primary key, category text not null);
+  insert into category_aliases (alias, category) values ${CATEGORY_ALIASES_SQL};
+  update transactions set category = coalesce(
+    (select category from category_aliases where alias = lower(trim(transactions.category))),
+    (select name from categories where name = trim(transactions.category)),
+    case type when 'income' then 'outras receitas' else 'outros' end
+  );
+  update recurring_rules set category = coalesce(
+    (select category from category_aliases where alias = lower(trim(recurring_rules.category))),
+    (select name from categories where name = trim(recurring_rules.category)),
+    case type when 'income' then 'outras receitas' else 'outros' end
+  );
+  update or ignore budgets set category = coalesce(
+    (select category from category_aliases where alias = lower(trim(budgets.category))),
+    budgets.category
+  );
+  drop table category_aliases;`,
+  // Rows saved so far kept the transaction date in created_at
+  `alter table transactions add column occurred_at text;
+  update transactions set occurred_at = created_at;
+  create index transactions_occurred_at_idx on transactions (occurred_at);`,
+  `alter table transactions add column currency text not null default 'BRL';
+  alter table transactions add column original_amount real;
+  alter table transactions add column exchange_rate real;
+  create table exchange_rates (
+    id text primary key,
+    currency text not null,
+    rate real not null check (rate > 0),
+    valid_from text not null,
+    created_at text not null,
+    unique (currency, valid_from)
+  );`,
+  `create table accounts (
+    id text primary key,
+    name text not null unique collate nocase,
+    kind text not null check (kind in ('checking', 'savings', 'cash', 'credit_card')),
+    closing_day integer check (closing_day between 1 and 31),
+    due_day integer check (due_day between 1 and 31),
+    opening_balance real not null default 0,
+    created_at text not null
+  );
+  create table transfers (
+    id text primary key,
+    from_account_id text references accounts (id),
+    to_account_id text references accounts (id),
+    amount real not null check (amount > 0),
+    description text not null,
+    occurred_at text not null,
+    whatsapp_from text,
+    created_at text not null
+  );
+  create index transfers_occurred_at_idx on transfers (occurred_at);
+  alter table transactions add column account_id text references accounts (id);
+  alter table transactions add column payment_method text;
+  create index transactions_account_id_idx on transactions (account_id);`,
+  `create table installment_purchases (
+    id text primary key,
+    description text not null,
+    category text not null,
+    total_amount real not null check (total_amount > 0),
+    installment_count integer not null check (installment_count > 1),
+    first_date text not null,
+    account_id text references accounts (id),
+    payment_method text,
+    whatsapp_from text,
+    cancelled_at text,
+    created_at text not null
+  );
+  alter table transactions add column installment_purchase_id text references installment_purchases (id);
+  alter table transactions add column installment_number integer;
+  alter table transactions add column installment_count integer;
+  create index transactions_installment_purchase_id_idx on transactions (installment_purchase_id);`,
+  `create table group_members (
+    id text primary key,
+    group_id text not null,
+    member_id text not null,
+    name text not null,
+    created_at text not null,
+    unique (group_id, member_id)
+  );
+  create table split_entries (
+    id text primary key,
+    group_id text not null,
+    debtor_id text not null,
+    creditor_id text not null,
+    amount real not null check (amount > 0),
+    kind text not null check (kind in ('share', 'settlement')),
+    transaction_id text references transactions (id) on delete cascade,
+    description text not null,
+    created_at text not null
+  );
+  create index split_entries_group_id_idx on split_entries (group_id);
+  alter table transactions add column paid_by text;`,
+  `create table pending_confirmations (
+    id text primary key,
+    whatsapp_from text not null,
+    sender text,
+    transactions text not null,
+    split_with text not null,
+    confidence real not null,
+    missing_fields text not null,
+    question_message_id text,
+    status text not null check (status in ('pending', 'confirmed', 'cancelled', 'expired')),
+    expires_at text not null,
+    resolved_at text,
+    created_at text not null
+  );
+  create index pending_confirmations_status_idx on pending_confirmations (status, expires_at);`,
+  `create table inbound_messages (
+    id text primary key,
+    source text not null check (source in ('whatsapp', 'simulator')),
+    external_id text unique,
+    whatsapp_from text not null,
+    sender text,
+    text text,
+    payload text not null,
+    extracted text,
+    outcome text not null,
+    detail text,
+    error text,
+    latency_ms integer,
+    received_at text not null,
+    processed_at text
+  );
+  create index inbound_messages_outcome_idx on inbound_messages (outcome, received_at);
+  alter table transactions add column inbound_message_id text references inbound_messages (id);`,
+  `alter table transactions add column merchant text;`,
+  // Foreign keys were not enforced before; clear what they would have cleared or refused
+  `update transactions set recurring_rule_id = null
+    where recurring_rule_id is not null and recurring_rule_id not in (select id from recurring_rules);
+  update transactions set account_id = null
+    where account_id is not null and account_id not in (select id from accounts);
+  update transactions set installment_purchase_id = null
+    where installment_purchase_id is not null and installment_purchase_id not in (select id from installment_purchases);
+  update transactions set inbound_message_id = null
+    where inbound_message_id is not null and inbound_message_id not in (select id from inbound_messages);
+  update transfers set from_account_id = null
+    where from_account_id is not null and from_account_id not in (select id from accounts);
+  update transfers set to_account_id = null
+    where to_account_id is not null and to_account_id not in (select id from accounts);
+  update installment_purchases set account_id = null
+    where account_id is not null and account_id not in (select id from accounts);
+  delete from split_entries
+    where transaction_id is not null and transaction_id not in (select id from transactions);
+  delete from categories
+    where parent_id is not null and parent_id not in (select id from categories);`,
+];
+
+const TRANSACTION_COLUMNS = [
+  'id',
+  'created_at',
+  'occurred_at',
+  'amount',
+  'type',
+  'category',
+  'description',
+  'raw_text',
+  'whatsapp_from',
+  'attachment_url',
+  'confirmation_message_id',
+  'extractor',
+  'recurring_rule_id',
+  'external_id',
+  'currency',
+  'original_amount',
+  'exchange_rate',
+  'account_id',
+  'payment_method',
+  'installment_purchase_id',
+  'installment_number',
+  'installment_count',
+  'paid_by',
+  'inbound_message_id',
+  'merchant',
+];
+
+function migrate(db: Database.Database) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+// Stored timestamps are always UTC ISO strings so they sort and compare as text
+function toIsoString(value: string | undefined) {
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+const JOB_COLUMNS = ['status', 'attempts', 'next_attempt_at', 'last_error', 'updated_at'];
+
+function pickColumns(changes: object, columns: string[]) {
+  return Object.entries(changes).filter(([column, value]) => columns.includes(column) && column !== 'id' && value !== undefined);
+}
+
+function normalizeTimestamps(changes: TransactionChanges): TransactionChanges {
+  return {
+    ...changes,
+    created_at: changes.created_at && toIsoString(changes.created_at),
+    occurred_at: changes.occurred_at && toIsoString(changes.occurred_at),
+  };
+}
+
+function createTransactionRepository(db: Database.Database): TransactionRepository {
+  const insertStatement = db.prepare(
+    `insert into transactions (${TRANSACTION_COLUMNS.join(', ')}) values (${TRANSACTION_COLUMNS.map((c) => `@${c}`).join(', ')})`
+  );
+  const selectById = db.prepare('select * from transactions where id = ?');
+
+  return {
+    async list(query = {}) {
+      const where: string[] = [];
+      const params: Record<string, unknown> = {};
+      const orderBy = query.orderBy === 'created_at' ? 'created_at' : 'occurred_at';
+
+      if (query.whatsappFrom) {
+        where.push('whatsapp_from = @whatsappFrom');
+        params.whatsappFrom = query.whatsappFrom;
+      }
+      if (query.confirmationMessageId) {
+        where.push('confirmation_message_id = @confirmationMessageId');
+        params.confirmationMessageId = query.confirmationMessageId;
+      }
+      if (query.type) {
+        where.push('type = @type');
+        params.type = query.type;
+      }
+      if (query.category) {
+        where.push('category = @category collate nocase');
+        params.category = query.category;
+      }
+      if (query.accountId) {
+        where.push('account_id = @accountId');
+        params.accountId = query.accountId;
+      }
+      if (query.installmentPurchaseId) {
+        where.push('installment_purchase_id = @installmentPurchaseId');
+        params.installmentPurchaseId = query.installmentPurchaseId;
+      }
+      if (query.inboundMessageId) {
+        where.push('inbound_message_id = @inboundMessageId');
+        params.inboundMessageId = query.inboundMessageId;
+      }
+      if (query.recurringRuleId) {
+        where.push('recurring_rule_id = @recurringRuleId');
+        params.recurringRuleId = query.recurringRuleId;
+      }
+      if (query.paidBy) {
+        where.push('paid_by = @paidBy');
+        params.paidBy = query.paidBy;
+      }
+      if (query.since) {
+        where.push('occurred_at >= @since');
+        params.since = toIsoString(query.since);
+      }
+      if (query.until) {
+        where.push('occurred_at < @until');
+        params.until = toIsoString(query.until);
+      }
+      if (query.search) {
+        where.push("(description like @search escape '\\' or category like @search escape '\\' or raw_text like @search escape '\\')");
+        params.search = `%${query.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      }
+      if (query.after) {
+        const comparison = query.ascending ? '>' : '<';
+        where.push(`(${orderBy} ${comparison} @afterValue or (${orderBy} = @afterValue and id ${comparison} @afterId))`);
+        params.afterValue = toIsoString(query.after.occurred_at);
+        params.afterId = query.after.id;
+      }
+
+      const direction = query.ascending ? 'asc' : 'desc';
+      const sql = [
+        'select * from transactions',
+        where.length > 0 ? `where ${where.join(' and ')}` : '',
+        `order by ${orderBy} ${direction}, id ${direction}`,
+        query.limit ? 'limit @limit' : '',
+      ].join(' ');
+      if (query.limit) params.limit = query.limit;
+
+      return db.prepare(sql).all(params) as Transaction[];
+    },
+
+    async get(id) {
+      return (selectById.get(id) as Transaction | undefined) || null;
+    },
+
+    async insert(rows) {
+      const inserted = rows.map((row) => {
+        const createdAt = toIsoString(row.created_at);
+        return {
+          raw_text: null,
+          whatsapp_from: null,
+          attachment_url: null,
+          confirmation_message_id: null,
+          extractor: null,
+          recurring_rule_id: null,
+          external_id: null,
+          currency: 'BRL',
+          original_amount: null,
+          exchange_rate: null,
+          account_id: null,
+          payment_method: null,
+          installment_purchase_id: null,
+          installment_number: null,
+          installment_count: null,
+          paid_by: null,
+          inbound_message_id: null,
+          merchant: null,
+          ...row,
+          id: randomUUID(),
+          created_at: createdAt,
+          occurred_at: row.occurred_at ? toIsoString(row.occurred_at) : createdAt,
+        };
+      });
+
+      db.transaction(() => {
+        for (const row of inserted) insertStatement.run(row);
+      })();
+
+      return inserted as Transaction[];
+    },
+
+    async update(id, changes) {
+      const columns = pickColumns(normalizeTimestamps(changes), TRANSACTION_COLUMNS);
+      if (columns.length > 0) {
+        db.prepare(`update transactions set ${columns.map(([c]) => `${c} = @${c}`).join(', ')} where id = @id`)
+          .run({ ...Object.fromEntries(columns), id });
+      }
+      return (selectById.get(id) as Transaction | undefined) || null;
+    },
+
+    async updateMany(ids, changes) {
+      const columns = pickColumns(normalizeTimestamps(changes), TRANSACTION_COLUMNS);
+      if (ids.length === 0 || columns.length === 0) return;
+      const statement = db.prepare(`update transactions set ${columns.map(([c]) => `${c} = @${c}`).join(', ')} where id = @id`);
+      db.transaction(() => {
+        for (const id of ids) statement.run({ ...Object.fromEntries(columns), id });
+      })();
+    },
+
+    async remove(id) {
+      return db.prepare('delete from transactions where id = ?').run(id).changes > 0;
+    },
+
+    async totals(query = {}) {
+      const where: string[] = [];
+      const params: Record<string, unknown> = {};
+      if (query.since) {
+        where.push('occurred_at >= @since');
+        params.since = toIsoString(query.since);
+      }
+      if (query.until) {
+        where.push('occurred_at < @until');
+        params.until = toIsoString(query.until);
+      }
+      // Summed in cents, since amounts are stored as floats
+      const sql = [
+        'select type, sum(round(amount * 100)) as cents, count(*) as count from transactions',
+        where.length > 0 ? `where ${where.join(' and ')}` : '',
+        'group by type',
+      ].join(' ');
+      const rows = db.prepare(sql).all(params) as { type: string; cents: number; count: number }[];
+      const income = rows.find((row) => row.type === 'income');
+      const expenses = rows.find((row) => row.type === 'expense');
+      return {
+        income: (income?.cents || 0) / 100,
+        expenses: (expenses?.cents || 0) / 100,
+        count: (income?.count || 0) + (expenses?.count || 0),
+      };
+    },
+
+    async ping() {
+      try {
+        db.prepare('select 1').get();
+        return true;
+      } catch (e) {
+        return false;
+      }
+    },
+  };
+}
+
+function parseJob(row: any): WebhookJob {
+  return { ...row, payload: JSON.parse(row.payload) };
+}
+
+function createJobRepository(db: Database.Database): JobRepository {
+  const selectById = db.prepare('select * from webhook_jobs where id = ?');
+
+  return {
+    async enqueue(messageId, payload) {
+      const now = new Date().toISOString();
+      const result = db
+        .prepare(
+          `insert into webhook_jobs (id, message_id, payload, status, attempts, next_attempt_at, created_at, updated_at)
+           values (?, ?, ?, 'pending', 0, ?, ?, ?)
+           on conflict (message_id) do nothing`
+        )
+        .run(randomUUID(), messageId, JSON.stringify(payload), now, now, now);
+      return result.changes > 0;
+    },
+
+    async claimDue(now, limit) {
+      return db.transaction(() => {
+        const due = db
+          .prepare(`select * from webhook_jobs where status = 'pending' and next_attempt_at <= ? order by next_attempt_at limit ?`)
+          .all(now, limit) as any[];
+        const claim = db.prepare(`update webhook_jobs set status = 'processing', updated_at = ? where id = ?`);
+        for (const job of due) claim.run(now, job.id);
+        return due.map((job) => parseJob({ ...job, status: 'processing', updated_at: now }));
+      })();
+    },
+
+    async update(id, changes) {
+      const columns = pickColumns({ ...changes, updated_at: new Date().toISOString() }, JOB_COLUMNS);
+      db.prepare(`update webhook_jobs set ${columns.map(([c]) => `${c} = @${c}`).join(', ')} where id = @id`)
+        .run({ ...Object.fromEntries(columns), id });
+      const row = selectById.get(id);
+      return row ? parseJob(row) : null;
+    },
+
+    async list(status, limit = 50) {
+      return (db.prepare('select * from webhook_jobs where status = ? order by updated_at desc limit ?').all(status, limit) as any[])
+        .map(parseJob);
+    },
+
+    async findByMessageId(messageId) {
+      const row = db.prepare('select * from webhook_jobs where message_id = ?').get(messageId);
+      return row ? parseJob(row) : null;
+    },
+
+    async releaseStale() {
+      db.prepare(`update webhook_jobs set status = 'pending', updated_at = ? where status = 'processing'`).run(new Date().toISOString());
+    },
+
+    async pruneFinished(before) {
+      return db.prepare(`delete from webhook_jobs where status = 'done' and updated_at < ?`).run(before).changes;
+    },
+  };
+}
+
+function createBudgetRepository(db: Database.Database): BudgetRepository {
+  return {
+    async list() {
+      return db.prepare('select * from budgets order by category').all() as Budget[];
+    },
+
+    async upsert(category, monthlyLimit) {
+      db.prepare(
+        `insert into budgets (id, category, monthly_limit, created_at) values (?, ?, ?, ?)
+         on conflict (category) do update set monthly_limit = excluded.monthly_limit`
+      ).run(randomUUID(), category, monthlyLimit, new Date().toISOString());
+      return db.prepare('select * from budgets where category = ?').get(category) as Budget;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from budgets where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createCategoryRepository(db: Database.Database): CategoryRepository {
+  return {
+    async list() {
+      return db.prepare('select * from categories order by type desc, name').all() as Category[];
+    },
+
+    async insert(category) {
+      const row = { parent_id: null, icon: null, color: null, ...category, id: randomUUID(), created_at: new Date().toISOString() };
+      db.prepare(
+        `insert into categories (id, name, parent_id, type, icon, color, created_at)
+         values (@id, @name, @parent_id, @type, @icon, @color, @created_at)`
+      ).run(row);
+      return row as Category;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from categories where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createAccountRepository(db: Database.Database): AccountRepository {
+  return {
+    async list() {
+      return db.prepare('select * from accounts order by kind, name').all() as Account[];
+    },
+
+    async insert(account) {
+      const row = { closing_day: null, due_day: null, ...account, id: randomUUID(), created_at: new Date().toISOString() };
+      db.prepare(
+        `insert into accounts (id, name, kind, closing_day, due_day, opening_balance, created_at)
+         values (@id, @name, @kind, @closing_day, @due_day, @opening_balance, @created_at)`
+      ).run(row);
+      return row as Account;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from accounts where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createTransferRepository(db: Database.Database): TransferRepository {
+  return {
+    async list(query = {}) {
+      const where: string[] = [];
+      const params: Record<string, unknown> = {};
+      if (query.accountId) {
+        where.push('(from_account_id = @accountId or to_account_id = @accountId)');
+        params.accountId = query.accountId;
+      }
+      if (query.until) {
+        where.push('occurred_at < @until');
+        params.until = toIsoString(query.until);
+      }
+      const sql = `select * from transfers ${where.length > 0 ? `where ${where.join(' and ')}` : ''} order by occurred_at desc, id desc`;
+      return db.prepare(sql).all(params) as Transfer[];
+    },
+
+    async insert(transfer) {
+      const createdAt = new Date().toISOString();
+      const row = {
+        from_account_id: null,
+        to_account_id: null,
+        whatsapp_from: null,
+        ...transfer,
+        id: randomUUID(),
+        created_at: createdAt,
+        occurred_at: transfer.occurred_at ? toIsoString(transfer.occurred_at) : createdAt,
+      };
+      db.prepare(
+        `insert into transfers (id, from_account_id, to_account_id, amount, description, occurred_at, whatsapp_from, created_at)
+         values (@id, @from_account_id, @to_account_id, @amount, @description, @occurred_at, @whatsapp_from, @created_at)`
+      ).run(row);
+      return row as Transfer;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from transfers where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createInstallmentPurchaseRepository(db: Database.Database): InstallmentPurchaseRepository {
+  const selectById = db.prepare('select * from installment_purchases where id = ?');
+
+  return {
+    async list() {
+      return db.prepare('select * from installment_purchases order by first_date desc, created_at desc').all() as InstallmentPurchase[];
+    },
+
+    async insert(purchase) {
+      const row = {
+        account_id: null,
+        payment_method: null,
+        whatsapp_from: null,
+        ...purchase,
+        id: randomUUID(),
+        cancelled_at: null,
+        created_at: new Date().toISOString(),
+      };
+      db.prepare(
+        `insert into installment_purchases (id, description, category, total_amount, installment_count, first_date, account_id, payment_method, whatsapp_from, cancelled_at, created_at)
+         values (@id, @description, @category, @total_amount, @installment_count, @first_date, @account_id, @payment_method, @whatsapp_from, @cancelled_at, @created_at)`
+      ).run(row);
+      return row as InstallmentPurchase;
+    },
+
+    async cancel(id, cancelledAt) {
+      db.prepare('update installment_purchases set cancelled_at = ? where id = ?').run(cancelledAt, id);
+      return (selectById.get(id) as InstallmentPurchase | undefined) || null;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from installment_purchases where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createGroupRepository(db: Database.Database): GroupRepository {
+  return {
+    async listMembers(groupId) {
+      return db.prepare('select * from group_members where group_id = ? order by name').all(groupId) as GroupMember[];
+    },
+
+    async upsertMember(groupId, memberId, name) {
+      db.prepare(
+        `insert into group_members (id, group_id, member_id, name, created_at) values (?, ?, ?, ?, ?)
+         on conflict (group_id, member_id) do update set name = excluded.name`
+      ).run(randomUUID(), groupId, memberId, name, new Date().toISOString());
+      return db.prepare('select * from group_members where group_id = ? and member_id = ?').get(groupId, memberId) as GroupMember;
+    },
+
+    async listEntries(groupId) {
+      return db.prepare('select * from split_entries where group_id = ? order by created_at').all(groupId) as SplitEntry[];
+    },
+
+    async insertEntries(entries) {
+      const insert = db.prepare(
+        `insert into split_entries (id, group_id, debtor_id, creditor_id, amount, kind, transaction_id, description, created_at)
+         values (@id, @group_id, @debtor_id, @creditor_id, @amount, @kind, @transaction_id, @description, @created_at)`
+      );
+      const createdAt = new Date().toISOString();
+      const rows = entries.map((entry) => ({ transaction_id: null, ...entry, id: randomUUID(), created_at: createdAt }));
+      db.transaction(() => rows.forEach((row) => insert.run(row)))();
+      return rows as SplitEntry[];
+    },
+
+    async removeEntriesForTransactions(transactionIds) {
+      if (transactionIds.length === 0) return;
+      db.prepare(`delete from split_entries where transaction_id in (${transactionIds.map(() => '?').join(', ')})`).run(...transactionIds);
+    },
+  };
+}
+
+function parsePending(row: any): PendingConfirmation {
+  return {
+    ...row,
+    transactions: JSON.parse(row.transactions),
+    split_with: JSON.parse(row.split_with),
+    missing_fields: JSON.parse(row.missing_fields),
+  };
+}
+
+function createPendingConfirmationRepository(db: Database.Database): PendingConfirmationRepository {
+  const selectById = db.prepare('select * from pending_confirmations where id = ?');
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? parsePending(row) : null;
+  };
+
+  return {
+    async list(status, limit = 50) {
+      return (db.prepare('select * from pending_confirmations where status = ? order by created_at desc limit ?').all(status, limit) as any[])
+        .map(parsePending);
+    },
+
+    async get(id) {
+      return get(id);
+    },
+
+    async findOpen(whatsappFrom, now) {
+      const row = db
+        .prepare(
+          `select * from pending_confirmations where whatsapp_from = ? and status = 'pending' and expires_at > ?
+           order by created_at desc limit 1`
+        )
+        .get(whatsappFrom, toIsoString(now));
+      return row ? parsePending(row) : null;
+    },
+
+    async insert(pending) {
+      const row = {
+        sender: null,
+        question_message_id: null,
+        ...pending,
+        id: randomUUID(),
+        status: 'pending' as const,
+        expires_at: toIsoString(pending.expires_at),
+        resolved_at: null,
+        created_at: new Date().toISOString(),
+      };
+      db.prepare(
+        `insert into pending_confirmations (id, whatsapp_from, sender, transactions, split_with, confidence, missing_fields, question_message_id, status, expires_at, resolved_at, created_at)
+         values (@id, @whatsapp_from, @sender, @transactions, @split_with, @confidence, @missing_fields, @question_message_id, @status, @expires_at, @resolved_at, @created_at)`
+      ).run({
+        ...row,
+        transactions: JSON.stringify(row.transactions),
+        split_with: JSON.stringify(row.split_with),
+        missing_fields: JSON.stringify(row.missing_fields),
+      });
+      return row as PendingConfirmation;
+    },
+
+    async update(id, changes) {
+      const columns = pickColumns(changes, ['transactions', 'missing_fields', 'question_message_id'])
+        .map(([column, value]) => [column, column === 'question_message_id' ? value : JSON.stringify(value)]);
+      if (columns.length > 0) {
+        db.prepare(`update pending_confirmations set ${columns.map(([c]) => `${c} = @${c}`).join(', ')} where id = @id`)
+          .run({ ...Object.fromEntries(columns), id });
+      }
+      return get(id);
+    },
+
+    async resolve(id, status, resolvedAt) {
+      const result = db
+        .prepare(`update pending_confirmations set status = ?, resolved_at = ? where id = ? and status = 'pending'`)
+        .run(status, toIsoString(resolvedAt), id);
+      return result.changes > 0 ? get(id) : null;
+    },
+
+    async reopen(id) {
+      const result = db
+        .prepare(`update pending_confirmations set status = 'pending', resolved_at = null where id = ? and status = 'confirmed'`)
+        .run(id);
+      return result.changes > 0 ? get(id) : null;
+    },
+  };
+}
+
+function parseMessage(row: any): InboundMessage {
+  return { ...row, payload: JSON.parse(row.payload), extracted: row.extracted ? JSON.parse(row.extracted) : null };
+}
+
+function createInboundMessageRepository(db: Database.Database): InboundMessageRepository {
+  const selectById = db.prepare('select * from inbound_messages where id = ?');
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? parseMessage(row) : null;
+  };
+
+  return {
+    async list(query = {}) {
+      const outcomes = query.outcomes || [];
+      const where = outcomes.length > 0 ? `where outcome in (${outcomes.map(() => '?').join(', ')})` : '';
+      return (db.prepare(`select * from inbound_messages ${where} order by received_at desc limit ?`).all(...outcomes, query.limit || 50) as any[])
+        .map(parseMessage);
+    },
+
+    async get(id) {
+      return get(id);
+    },
+
+    async findByExternalId(externalId) {
+      const row = db.prepare('select * from inbound_messages where external_id = ?').get(externalId);
+      return row ? parseMessage(row) : null;
+    },
+
+    async insert(message) {
+      const row = {
+        external_id: null,
+        sender: null,
+        text: null,
+        extracted: null,
+        detail: null,
+        error: null,
+        latency_ms: null,
+        ...message,
+        id: randomUUID(),
+        received_at: toIsoString(message.received_at),
+        processed_at: null,
+      };
+      const result = db.prepare(
+        `insert into inbound_messages (id, source, external_id, whatsapp_from, sender, text, payload, extracted, outcome, detail, error, latency_ms, received_at, processed_at)
+         values (@id, @source, @external_id, @whatsapp_from, @sender, @text, @payload, @extracted, @outcome, @detail, @error, @latency_ms, @received_at, @processed_at)
+         on conflict (external_id) do nothing`
+      ).run({ ...row, payload: JSON.stringify(row.payload), extracted: row.extracted ? JSON.stringify(row.extracted) : null });
+      return result.changes > 0 ? (row as InboundMessage) : null;
+    },
+
+    async update(id, changes) {
+      const columns = pickColumns(
+        { ...changes, processed_at: changes.processed_at && toIsoString(changes.processed_at) },
+        ['text', 'extracted', 'outcome', 'detail', 'error', 'latency_ms', 'processed_at']
+      ).map(([column, value]) => [column, column === 'extracted' && value ? JSON.stringify(value) : value]);
+      if (columns.length > 0) {
+        db.prepare(`update inbound_messages set ${columns.map(([c]) => `${c} = @${c}`).join(', ')} where id = @id`)
+          .run({ ...Object.fromEntries(columns), id });
+      }
+      return get(id);
+    },
+  };
+}
+
+function createMerchantRuleRepository(db: Database.Database): MerchantRuleRepository {
+  return {
+    async list() {
+      return db.prepare('select * from merchant_rules order by pattern').all() as MerchantRule[];
+    },
+
+    async upsert(pattern, category) {
+      db.prepare(
+        `insert into merchant_rules (id, pattern, category, created_at) values (?, ?, ?, ?)
+         on conflict (pattern) do update set category = excluded.category`
+      ).run(randomUUID(), pattern, category, new Date().toISOString());
+      return db.prepare('select * from merchant_rules where pattern = ?').get(pattern) as MerchantRule;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from merchant_rules where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createExchangeRateRepository(db: Database.Database): ExchangeRateRepository {
+  return {
+    async list() {
+      return db.prepare('select * from exchange_rates order by currency, valid_from desc').all() as ExchangeRate[];
+    },
+
+    async upsert(currency, validFrom, rate) {
+      db.prepare(
+        `insert into exchange_rates (id, currency, rate, valid_from, created_at) values (?, ?, ?, ?, ?)
+         on conflict (currency, valid_from) do update set rate = excluded.rate`
+      ).run(randomUUID(), currency, rate, validFrom, new Date().toISOString());
+      return db.prepare('select * from exchange_rates where currency = ? and valid_from = ?').get(currency, validFrom) as ExchangeRate;
+    },
+
+    async remove(id) {
+      return db.prepare('delete from exchange_rates where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function createRecurringRuleRepository(db: Database.Database): RecurringRuleRepository {
+  return {
+    async list() {
+      return db.prepare('select * from recurring_rules order by day_of_month, description').all() as RecurringRule[];
+    },
+
+    async insert(rule) {
+      const row = {
+        end_date: null,
+        whatsapp_from: null,
+        ...rule,
+        id: randomUUID(),
+        last_generated_on: null,
+        created_at: new Date().toISOString(),
+      };
+      db.prepare(
+        `insert into recurring_rules (id, amount, type, category, description, day_of_month, start_date, end_date, last_generated_on, whatsapp_from, created_at)
+         values (@id, @amount, @type, @category, @description, @day_of_month, @start_date, @end_date, @last_generated_on, @whatsapp_from, @created_at)`
+      ).run(row);
+      return row as RecurringRule;
+    },
+
+    async setLastGenerated(id, date) {
+      db.prepare('update recurring_rules set last_generated_on = ? where id = ?').run(date, id);
+    },
+
+    async remove(id) {
+      return db.prepare('delete from recurring_rules where id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+function parseReport(row: any): MonthlyReport {
+  return { ...row, summary: JSON.parse(row.summary) };
+}
+
+function createReportRepository(db: Database.Database): ReportRepository {
+  return {
+    async list(limit = 50) {
+      return (db.prepare('select * from monthly_reports order by period desc, whatsapp_from limit ?').all(limit) as any[]).map(parseReport);
+    },
+
+    async get(id) {
+      const row = db.prepare('select * from monthly_reports where id = ?').get(id);
+      return row ? parseReport(row) : null;
+    },
+
+    async find(whatsappFrom, period) {
+      const row = db.prepare('select * from monthly_reports where whatsapp_from = ? and period = ?').get(whatsappFrom, period);
+      return row ? parseReport(row) : null;
+    },
+
+    async insert(report) {
+      const row = { sent_at: null, ...report, id: randomUUID(), created_at: new Date().toISOString() };
+      db.prepare(
+        `insert into monthly_reports (id, whatsapp_from, period, summary, sent_at, created_at)
+         values (@id, @whatsapp_from, @period, @summary, @sent_at, @created_at)`
+      ).run({ ...row, summary: JSON.stringify(row.summary) });
+      return row as MonthlyReport;
+    },
+
+    async markSent(id, sentAt) {
+      db.prepare('update monthly_reports set sent_at = ? where id = ?').run(sentAt, id);
+    },
+  };
+}
+
+// Receipts are only served through signed links, valid for this long
+const ATTACHMENT_LINK_TTL_MS = 60 * 60 * 1000;
+
+let generatedSigningKey: string | null = null;
+
+// Without ATTACHMENTS_SIGNING_KEY a key is made up per process, so links stop working after a restart
+function attachmentSigningKey() {
+  if (process.env.ATTACHMENTS_SIGNING_KEY) return process.env.ATTACHMENTS_SIGNING_KEY;
+  generatedSigningKey ??= randomBytes(32).toString('hex');
+  return generatedSigningKey;
+}
+
+function signAttachment(name: string, expires: number) {
+  return createHmac('sha256', attachmentSigningKey()).update(`${name}:${expires}`).digest('hex');
+}
+
+/** Whether a link minted by `url()` is genuine and its `expires` (ms since epoch) is still ahead */
+export function verifyAttachmentLink(name: string, expires: string, signature: string) {
+  const expiresAt = Number(expires);
+  if (!Number.isSafeInteger(expiresAt) || expiresAt < Date.now()) return false;
+  const expected = Buffer.from(signAttachment(name, expiresAt), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+function createAttachmentStore(directory: string): AttachmentStore {
+  return {
+    async save(data, mimeType, name) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(path.join(directory, name), data);
+      return `/attachments/${encodeURIComponent(name)}`;
+    },
+
+    async url(reference) {
+      const name = decodeURIComponent(reference.replace(/^\/attachments\//, ''));
+      const expires = Date.now() + ATTACHMENT_LINK_TTL_MS;
+      return `/attachments/${encodeURIComponent(name)}?expires=${expires}&signature=${signAttachment(name, expires)}`;
+    },
+  };
+}
+
+export function createSqliteStorage(): Storage {
+  const dbPath = process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'finanza.db');
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  // Off by default in SQLite; without it the references and their on delete actions do nothing
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  return {
+    driver: 'sqlite',
+    transactions: createTransactionRepository(db),
+    jobs: createJobRepository(db),
+    budgets: createBudgetRepository(db),
+    categories: createCategoryRepository(db),
+    merchantRules: createMerchantRuleRepository(db),
+    exchangeRates: createExchangeRateRepository(db),
+    accounts: createAccountRepository(db),
+    transfers: createTransferRepository(db),
+    installments: createInstallmentPurchaseRepository(db),
+    groups: createGroupRepository(db),
+    pending: createPendingConfirmationRepository(db),
+    messages: createInboundMessageRepository(db),
+    recurring: createRecurringRuleRepository(db),
+    reports: createReportRepository(db),
+    attachments: createAttachmentStore(getAttachmentsDir()),
+  };
+}
+
+export function getAttachmentsDir() {
+  return process.env.ATTACHMENTS_DIR || path.join(process.cwd(), 'data', 'attachments');
+}
@@ -0,0 +1,745 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Account, Budget, Category, ExchangeRate, GroupMember, InboundMessage, InstallmentPurchase, MerchantRule, MonthlyReport, PendingConfirmation, RecurringRule, SplitEntry, Transaction, Transfer, WebhookJob } from '../../src/types';
+import {
+  AccountRepository,
+  AttachmentStore,
+  BudgetRepository,
+  CategoryRepository,
+  ExchangeRateRepository,
+  GroupRepository,
+  InboundMessageRepository,
+  InstallmentPurchaseRepository,
+  JobRepository,
+  MerchantRuleRepository,
+  PendingConfirmationRepository,
+  RecurringRuleRepository,
+  ReportRepository,
+  Storage,
+  TransactionRepository,
+  TransferRepository,
+} from './types';
+
+// ilike matches case-insensitively like SQLite's nocase columns; % and _ must match literally
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// PostgREST caps every response at its max-rows setting (1000 by default), so unbounded lists are read page by page
+const PAGE_SIZE = 1000;
+
+async function selectAll<T>(page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function createTransactionRepository(supabase: SupabaseClient): TransactionRepository {
+  return {
+    async list(query = {}) {
+      const orderBy = query.orderBy === 'created_at' ? 'created_at' : 'occurred_at';
+      const filtered = () => {
+        let request = supabase
+          .from('transactions')
+          .select('*')
+          .order(orderBy, { ascending: !!query.ascending })
+          .order('id', { ascending: !!query.ascending });
+
+        if (query.whatsappFrom) request = request.eq('whatsapp_from', query.whatsappFrom);
+        if (query.confirmationMessageId) request = request.eq('confirmation_message_id', query.confirmationMessageId);
+        if (query.type) request = request.eq('type', query.type);
+        if (query.category) request = request.ilike('category', escapeLike(query.category));
+        if (query.accountId) request = request.eq('account_id', query.accountId);
+        if (query.installmentPurchaseId) request = request.eq('installment_purchase_id', query.installmentPurchaseId);
+        if (query.inboundMessageId) request = request.eq('inbound_message_id', query.inboundMessageId);
+        if (query.recurringRuleId) request = request.eq('recurring_rule_id', query.recurringRuleId);
+        if (query.paidBy) request = request.eq('paid_by', query.paidBy);
+        if (query.since) request = request.gte('occurred_at', query.since);
+        if (query.until) request = request.lt('occurred_at', query.until);
+        if (query.search) {
+          // Commas and parentheses would break the or() filter syntax
+          const pattern = `%${escapeLike(query.search.replace(/[,()]/g, ' '))}%`;
+          request = request.or(`description.ilike.${pattern},category.ilike.${pattern},raw_text.ilike.${pattern}`);
+        }
+        if (query.after) {
+          const comparison = query.ascending ? 'gt' : 'lt';
+          const { occurred_at, id } = query.after;
+          request = request.or(`${orderBy}.${comparison}.${occurred_at},and(${orderBy}.eq.${occurred_at},id.${comparison}.${id})`);
+        }
+        return request;
+      };
+
+      if (!query.limit) return selectAll<Transaction>((from, to) => filtered().range(from, to));
+      const { data, error } = await filtered().limit(query.limit);
+      if (error) throw error;
+      return (data || []) as Transaction[];
+    },
+
+    async get(id) {
+      const { data, error } = await supabase.from('transactions').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data as Transaction | null;
+    },
+
+    async insert(rows) {
+      if (rows.length === 0) return [];
+      // Keys missing from some rows take the column default instead of null
+      const { data, error } = await supabase.from('transactions').insert(rows, { defaultToNull: false }).select();
+      if (error) throw error;
+      return data as Transaction[];
+    },
+
+    async update(id, changes) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return data as Transaction | null;
+    },
+
+    async updateMany(ids, changes) {
+      if (ids.length === 0) return;
+      const { error } = await supabase.from('transactions').update(changes).in('id', ids);
+      if (error) throw error;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('transactions').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+
+    async totals(query = {}) {
+      const { data, error } = await supabase.rpc('transaction_totals', {
+        since_at: query.since || null,
+        until_at: query.until || null,
+      });
+      if (error) throw error;
+      const rows = (data || []) as { type: string; total: number | string; count: number | string }[];
+      const income = rows.find((row) => row.type === 'income');
+      const expenses = rows.find((row) => row.type === 'expense');
+      return {
+        income: Number(income?.total || 0),
+        expenses: Number(expenses?.total || 0),
+        count: Number(income?.count || 0) + Number(expenses?.count || 0),
+      };
+    },
+
+    async ping() {
+      const { error } = await supabase.from('transactions').select('id').limit(1);
+      return !error;
+    },
+  };
+}
+
+function createJobRepository(supabase: SupabaseClient): JobRepository {
+  return {
+    async enqueue(messageId, payload) {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('webhook_jobs')
+        .upsert(
+          [{ message_id: messageId, payload, status: 'pending', attempts: 0, next_attempt_at: now }],
+          { onConflict: 'message_id', ignoreDuplicates: true }
+        )
+        .select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+
+    async claimDue(now, limit) {
+      const { data, error } = await supabase
+        .from('webhook_jobs')
+        .select('id')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', now)
+        .order('next_attempt_at', { ascending: true })
+        .limit(limit);
+      if (error) throw error;
+      if (!data || data.length === 0) return [];
+
+      // Filtering on status again means a job claimed in between is skipped, not processed twice
+      const { data: claimed, error: claimError } = await supabase
+        .from('webhook_jobs')
+        .update({ status: 'processing', updated_at: now })
+        .in('id', data.map((job) => job.id))
+        .eq('status', 'pending')
+        .select();
+      if (claimError) throw claimError;
+      return (claimed || []) as WebhookJob[];
+    },
+
+    async update(id, changes) {
+      const { data, error } = await supabase
+        .from('webhook_jobs')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return data as WebhookJob | null;
+    },
+
+    async list(status, limit = 50) {
+      const { data, error } = await supabase
+        .from('webhook_jobs')
+        .select('*')
+        .eq('status', status)
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return (data || []) as WebhookJob[];
+    },
+
+    async findByMessageId(messageId) {
+      const { data, error } = await supabase.from('webhook_jobs').select('*').eq('message_id', messageId).maybeSingle();
+      if (error) throw error;
+      return data as WebhookJob | null;
+    },
+
+    async releaseStale() {
+      const { error } = await supabase
+        .from('webhook_jobs')
+        .update({ status: 'pending', updated_at: new Date().toISOString() })
+        .eq('status', 'processing');
+      if (error) throw error;
+    },
+
+    async pruneFinished(before) {
+      const { data, error } = await supabase
+        .from('webhook_jobs')
+        .delete()
+        .eq('status', 'done')
+        .lt('updated_at', before)
+        .select('id');
+      if (error) throw error;
+      return (data || []).length;
+    },
+  };
+}
+
+function createBudgetRepository(supabase: SupabaseClient): BudgetRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase.from('budgets').select('*').order('category', { ascending: true });
+      if (error) throw error;
+      return (data || []) as Budget[];
+    },
+
+    async upsert(category, monthlyLimit) {
+      const { data: existing, error: findError } = await supabase
+        .from('budgets')
+        .select('id')
+        .ilike('category', escapeLike(category))
+        .maybeSingle();
+      if (findError) throw findError;
+
+      const { data, error } = existing
+        ? await supabase.from('budgets').update({ monthly_limit: monthlyLimit }).eq('id', existing.id).select().single()
+        : await supabase.from('budgets').insert([{ category, monthly_limit: monthlyLimit }]).select().single();
+      if (error) throw error;
+      return data as Budget;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('budgets').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createCategoryRepository(supabase: SupabaseClient): CategoryRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('type', { ascending: false })
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return (data || []) as Category[];
+    },
+
+    async insert(category) {
+      const { data, error } = await supabase.from('categories').insert([category]).select().single();
+      if (error) throw error;
+      return data as Category;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('categories').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createAccountRepository(supabase: SupabaseClient): AccountRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .order('kind', { ascending: true })
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return (data || []) as Account[];
+    },
+
+    async insert(account) {
+      const { data, error } = await supabase.from('accounts').insert([account]).select().single();
+      if (error) throw error;
+      return data as Account;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('accounts').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createTransferRepository(supabase: SupabaseClient): TransferRepository {
+  return {
+    async list(query = {}) {
+      return selectAll<Transfer>((from, to) => {
+        let request = supabase
+          .from('transfers')
+          .select('*')
+          .order('occurred_at', { ascending: false })
+          .order('id', { ascending: false });
+        if (query.accountId) request = request.or(`from_account_id.eq.${query.accountId},to_account_id.eq.${query.accountId}`);
+        if (query.until) request = request.lt('occurred_at', query.until);
+        return request.range(from, to);
+      });
+    },
+
+    async insert(transfer) {
+      const { data, error } = await supabase.from('transfers').insert([transfer]).select().single();
+      if (error) throw error;
+      return data as Transfer;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('transfers').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createInstallmentPurchaseRepository(supabase: SupabaseClient): InstallmentPurchaseRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('installment_purchases')
+        .select('*')
+        .order('first_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as InstallmentPurchase[];
+    },
+
+    async insert(purchase) {
+      const { data, error } = await supabase.from('installment_purchases').insert([purchase]).select().single();
+      if (error) throw error;
+      return data as InstallmentPurchase;
+    },
+
+    async cancel(id, cancelledAt) {
+      const { data, error } = await supabase
+        .from('installment_purchases')
+        .update({ cancelled_at: cancelledAt })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return (data as InstallmentPurchase) || null;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('installment_purchases').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createGroupRepository(supabase: SupabaseClient): GroupRepository {
+  return {
+    async listMembers(groupId) {
+      const { data, error } = await supabase
+        .from('group_members')
+        .select('*')
+        .eq('group_id', groupId)
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return (data || []) as GroupMember[];
+    },
+
+    async upsertMember(groupId, memberId, name) {
+      const { data, error } = await supabase
+        .from('group_members')
+        .upsert([{ group_id: groupId, member_id: memberId, name }], { onConflict: 'group_id,member_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as GroupMember;
+    },
+
+    async listEntries(groupId) {
+      return selectAll<SplitEntry>((from, to) =>
+        supabase
+          .from('split_entries')
+          .select('*')
+          .eq('group_id', groupId)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      );
+    },
+
+    async insertEntries(entries) {
+      if (entries.length === 0) return [];
+      const { data, error } = await supabase.from('split_entries').insert(entries, { defaultToNull: false }).select();
+      if (error) throw error;
+      return (data || []) as SplitEntry[];
+    },
+
+    async removeEntriesForTransactions(transactionIds) {
+      if (transactionIds.length === 0) return;
+      const { error } = await supabase.from('split_entries').delete().in('transaction_id', transactionIds);
+      if (error) throw error;
+    },
+  };
+}
+
+function createPendingConfirmationRepository(supabase: SupabaseClient): PendingConfirmationRepository {
+  return {
+    async list(status, limit = 50) {
+      const { data, error } = await supabase
+        .from('pending_confirmations')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return (data || []) as PendingConfirmation[];
+    },
+
+    async get(id) {
+      const { data, error } = await supabase.from('pending_confirmations').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data as PendingConfirmation | null;
+    },
+
+    async findOpen(whatsappFrom, now) {
+      const { data, error } = await supabase
+        .from('pending_confirmations')
+        .select('*')
+        .eq('whatsapp_from', whatsappFrom)
+        .eq('status', 'pending')
+        .gt('expires_at', now)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data as PendingConfirmation | null;
+    },
+
+    async insert(pending) {
+      const { data, error } = await supabase.from('pending_confirmations').insert([pending]).select().single();
+      if (error) throw error;
+      return data as PendingConfirmation;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await supabase
+        .from('pending_confirmations')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return data as PendingConfirmation | null;
+    },
+
+    async resolve(id, status, resolvedAt) {
+      // Filtering on status makes a confirmation from WhatsApp and one from the dashboard race safely
+      const { data, error } = await supabase
+        .from('pending_confirmations')
+        .update({ status, resolved_at: resolvedAt })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return data as PendingConfirmation | null;
+    },
+
+    async reopen(id) {
+      const { data, error } = await supabase
+        .from('pending_confirmations')
+        .update({ status: 'pending', resolved_at: null })
+        .eq('id', id)
+        .eq('status', 'confirmed')
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return data as PendingConfirmation | null;
+    },
+  };
+}
+
+function createInboundMessageRepository(supabase: SupabaseClient): InboundMessageRepository {
+  return {
+    async list(query = {}) {
+      let request = supabase.from('inbound_messages').select('*');
+      if (query.outcomes && query.outcomes.length > 0) request = request.in('outcome', query.outcomes);
+      const { data, error } = await request.order('received_at', { ascending: false }).limit(query.limit || 50);
+      if (error) throw error;
+      return (data || []) as InboundMessage[];
+    },
+
+    async get(id) {
+      const { data, error } = await supabase.from('inbound_messages').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data as InboundMessage | null;
+    },
+
+    async findByExternalId(externalId) {
+      const { data, error } = await supabase.from('inbound_messages').select('*').eq('external_id', externalId).maybeSingle();
+      if (error) throw error;
+      return data as InboundMessage | null;
+    },
+
+    async insert(message) {
+      const { data, error } = await supabase
+        .from('inbound_messages')
+        .upsert([message], { onConflict: 'external_id', ignoreDuplicates: true })
+        .select();
+      if (error) throw error;
+      return ((data || [])[0] as InboundMessage) || null;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await supabase
+        .from('inbound_messages')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      return data as InboundMessage | null;
+    },
+  };
+}
+
+function createMerchantRuleRepository(supabase: SupabaseClient): MerchantRuleRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase.from('merchant_rules').select('*').order('pattern', { ascending: true });
+      if (error) throw error;
+      return (data || []) as MerchantRule[];
+    },
+
+    async upsert(pattern, category) {
+      const { data, error } = await supabase
+        .from('merchant_rules')
+        .upsert([{ pattern, category }], { onConflict: 'pattern' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as MerchantRule;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('merchant_rules').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createExchangeRateRepository(supabase: SupabaseClient): ExchangeRateRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('currency', { ascending: true })
+        .order('valid_from', { ascending: false });
+      if (error) throw error;
+      return (data || []) as ExchangeRate[];
+    },
+
+    async upsert(currency, validFrom, rate) {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .upsert([{ currency, valid_from: validFrom, rate }], { onConflict: 'currency,valid_from' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as ExchangeRate;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('exchange_rates').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createRecurringRuleRepository(supabase: SupabaseClient): RecurringRuleRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('recurring_rules')
+        .select('*')
+        .order('day_of_month', { ascending: true })
+        .order('description', { ascending: true });
+      if (error) throw error;
+      return (data || []) as RecurringRule[];
+    },
+
+    async insert(rule) {
+      const { data, error } = await supabase.from('recurring_rules').insert([rule]).select().single();
+      if (error) throw error;
+      return data as RecurringRule;
+    },
+
+    async setLastGenerated(id, date) {
+      const { error } = await supabase.from('recurring_rules').update({ last_generated_on: date }).eq('id', id);
+      if (error) throw error;
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('recurring_rules').delete().eq('id', id).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+  };
+}
+
+function createReportRepository(supabase: SupabaseClient): ReportRepository {
+  return {
+    async list(limit = 50) {
+      const { data, error } = await supabase
+        .from('monthly_reports')
+        .select('*')
+        .order('period', { ascending: false })
+        .order('whatsapp_from', { ascending: true })
+        .limit(limit);
+      if (error) throw error;
+      return (data || []) as MonthlyReport[];
+    },
+
+    async get(id) {
+      const { data, error } = await supabase.from('monthly_reports').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data as MonthlyReport | null;
+    },
+
+    async find(whatsappFrom, period) {
+      const { data, error } = await supabase
+        .from('monthly_reports')
+        .select('*')
+        .eq('whatsapp_from', whatsappFrom)
+        .eq('period', period)
+        .maybeSingle();
+      if (error) throw error;
+      return data as MonthlyReport | null;
+    },
+
+    async insert(report) {
+      const { data, error } = await supabase.from('monthly_reports').insert([report]).select().single();
+      if (error) throw error;
+      return data as MonthlyReport;
+    },
+
+    async markSent(id, sentAt) {
+      const { error } = await supabase.from('monthly_reports').update({ sent_at: sentAt }).eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
+
+// Receipts are private; the dashboard gets a signed URL that is valid for this long
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * The bucket is private and has no storage.objects policies, so only the
+ * service role can upload to it and sign URLs.
+ */
+function createAttachmentStore(supabase: SupabaseClient, bucket: string): AttachmentStore {
+  let bucketChecked = false;
+  // The migration creates a private "attachments" bucket; a bucket named in SUPABASE_ATTACHMENTS_BUCKET must exist and be private too
+  const checkBucket = async () => {
+    if (bucketChecked) return;
+    bucketChecked = true;
+    const { data, error } = await supabase.storage.getBucket(bucket);
+    if (error) console.warn(`Supabase bucket "${bucket}" could not be checked:`, error.message);
+    else if (data.public) console.warn(`Supabase bucket "${bucket}" is public; receipt photos should be in a private bucket`);
+  };
+
+  return {
+    async save(data, mimeType, name) {
+      await checkBucket();
+      const filePath = `whatsapp/${name}`;
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(filePath, data, { contentType: mimeType });
+      if (error) throw new Error(`Could not store receipt photo: ${error.message}`);
+      return filePath;
+    },
+
+    async url(reference) {
+      // Rows saved while the bucket was public hold its full public URL
+      const publicPrefix = `/storage/v1/object/public/${bucket}/`;
+      const filePath = reference.includes(publicPrefix) ? reference.split(publicPrefix)[1] : reference;
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrl(filePath, SIGNED_URL_TTL_SECONDS);
+      if (error) {
+        console.error('Supabase storage error:', error);
+        return null;
+      }
+      return data.signedUrl;
+    },
+  };
+}
+
+export function createSupabaseStorage(): Storage {
+  const supabaseUrl = process.env.SUPABASE_URL || '';
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+  // The inbox and the receipt photos are closed to the anon key, so the server connects as the service role
+  if (!serviceRoleKey) throw new Error('STORAGE_DRIVER "supabase" needs SUPABASE_SERVICE_ROLE_KEY');
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const bucket = process.env.SUPABASE_ATTACHMENTS_BUCKET || 'attachments';
+
+  return {
+    driver: 'supabase',
+    transactions: createTransactionRepository(supabase),
+    jobs: createJobRepository(supabase),
+    budgets: createBudgetRepository(supabase),
+    categories: createCategoryRepository(supabase),
+    merchantRules: createMerchantRuleRepository(supabase),
+    exchangeRates: createExchangeRateRepository(supabase),
+    accounts: createAccountRepository(supabase),
+    transfers: createTransferRepository(supabase),
+    installments: createInstallmentPurchaseRepository(supabase),
+    groups: createGroupRepository(supabase),
+    pending: createPendingConfirmationRepository(supabase),
+    messages: createInboundMessageRepository(supabase),
+    recurring: createRecurringRuleRepository(supabase),
+    reports: createReportRepository(supabase),
+    attachments: createAttachmentStore(supabase, bucket),
+  };
+}
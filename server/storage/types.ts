@@ -0,0 +1,227 @@
+import { Account, Budget, Category, ExchangeRate, GroupMember, InboundMessage, InstallmentPurchase, JobStatus, MerchantRule, MessageOutcome, MonthlyReport, PendingConfirmation, PendingStatus, RecurringRule, SplitEntry, Transaction, Transfer, WebhookJob } from '../../src/types';
+
+/** `occurred_at` defaults to the insertion time and `currency` to BRL */
+export type NewTransaction = Omit<Transaction, 'id' | 'created_at' | 'occurred_at' | 'currency'> & {
+  created_at?: string;
+  occurred_at?: string;
+  currency?: string;
+};
+
+export type TransactionChanges = Partial<Omit<Transaction, 'id'>>;
+
+export interface TransactionCursor {
+  occurred_at: string;
+  id: string;
+}
+
+export interface TransactionQuery {
+  whatsappFrom?: string;
+  confirmationMessageId?: string;
+  type?: 'income' | 'expense';
+  /** Case-insensitive exact category */
+  category?: string;
+  accountId?: string;
+  installmentPurchaseId?: string;
+  inboundMessageId?: string;
+  recurringRuleId?: string;
+  /** In a group, the participant who paid */
+  paidBy?: string;
+  /** Inclusive lower bound on occurred_at (ISO 8601) */
+  since?: string;
+  /** Exclusive upper bound on occurred_at (ISO 8601) */
+  until?: string;
+  /** Case-insensitive substring of the description, category or original message */
+  search?: string;
+  /** Keyset position: rows strictly after this one in the requested order */
+  after?: TransactionCursor;
+  /** Sort column, occurred_at unless the insertion order matters (e.g. undoing the last entry) */
+  orderBy?: 'occurred_at' | 'created_at';
+  ascending?: boolean;
+  limit?: number;
+}
+
+export interface TransactionTotals {
+  income: number;
+  expenses: number;
+  count: number;
+}
+
+export interface TransactionRepository {
+  list(query?: TransactionQuery): Promise<Transaction[]>;
+  /** Sums by type in the database, for balances over a history too long to read */
+  totals(query?: Pick<TransactionQuery, 'since' | 'until'>): Promise<TransactionTotals>;
+  get(id: string): Promise<Transaction | null>;
+  insert(rows: NewTransaction[]): Promise<Transaction[]>;
+  update(id: string, changes: TransactionChanges): Promise<Transaction | null>;
+  updateMany(ids: string[], changes: TransactionChanges): Promise<void>;
+  remove(id: string): Promise<boolean>;
+  ping(): Promise<boolean>;
+}
+
+export type JobChanges = Partial<Omit<WebhookJob, 'id' | 'message_id' | 'created_at'>>;
+
+export interface JobRepository {
+  /** Resolves to false when a job for this WAHA message id already exists */
+  enqueue(messageId: string, payload: unknown): Promise<boolean>;
+  /** Marks up to `limit` pending jobs due at `now` as processing and returns them */
+  claimDue(now: string, limit: number): Promise<WebhookJob[]>;
+  update(id: string, changes: JobChanges): Promise<WebhookJob | null>;
+  list(status: JobStatus, limit?: number): Promise<WebhookJob[]>;
+  findByMessageId(messageId: string): Promise<WebhookJob | null>;
+  /** Returns jobs left in processing by a previous run to the pending state */
+  releaseStale(): Promise<void>;
+  /** Deletes done jobs last updated before `before`; dead ones stay for inspection. Resolves to how many went */
+  pruneFinished(before: string): Promise<number>;
+}
+
+export interface BudgetRepository {
+  list(): Promise<Budget[]>;
+  /** Creates or replaces the limit for a category (matched case-insensitively) */
+  upsert(category: string, monthlyLimit: number): Promise<Budget>;
+  remove(id: string): Promise<boolean>;
+}
+
+export type NewCategory = Omit<Category, 'id' | 'created_at'>;
+
+export interface CategoryRepository {
+  list(): Promise<Category[]>;
+  insert(category: NewCategory): Promise<Category>;
+  remove(id: string): Promise<boolean>;
+}
+
+export interface MerchantRuleRepository {
+  list(): Promise<MerchantRule[]>;
+  /** Creates the rule or points an existing pattern at a new category */
+  upsert(pattern: string, category: string): Promise<MerchantRule>;
+  remove(id: string): Promise<boolean>;
+}
+
+export type NewAccount = Omit<Account, 'id' | 'created_at'>;
+
+export interface AccountRepository {
+  list(): Promise<Account[]>;
+  insert(account: NewAccount): Promise<Account>;
+  remove(id: string): Promise<boolean>;
+}
+
+/** `occurred_at` defaults to the insertion time */
+export type NewTransfer = Omit<Transfer, 'id' | 'created_at' | 'occurred_at'> & { occurred_at?: string };
+
+export interface TransferQuery {
+  accountId?: string;
+  /** Exclusive upper bound on occurred_at (ISO 8601) */
+  until?: string;
+}
+
+export interface TransferRepository {
+  list(query?: TransferQuery): Promise<Transfer[]>;
+  insert(transfer: NewTransfer): Promise<Transfer>;
+  remove(id: string): Promise<boolean>;
+}
+
+export type NewInstallmentPurchase = Omit<InstallmentPurchase, 'id' | 'created_at' | 'cancelled_at'>;
+
+export interface InstallmentPurchaseRepository {
+  list(): Promise<InstallmentPurchase[]>;
+  insert(purchase: NewInstallmentPurchase): Promise<InstallmentPurchase>;
+  cancel(id: string, cancelledAt: string): Promise<InstallmentPurchase | null>;
+  remove(id: string): Promise<boolean>;
+}
+
+export type NewSplitEntry = Omit<SplitEntry, 'id' | 'created_at'>;
+
+export interface GroupRepository {
+  listMembers(groupId: string): Promise<GroupMember[]>;
+  /** Registers the participant or updates the name they go by */
+  upsertMember(groupId: string, memberId: string, name: string): Promise<GroupMember>;
+  listEntries(groupId: string): Promise<SplitEntry[]>;
+  insertEntries(entries: NewSplitEntry[]): Promise<SplitEntry[]>;
+  /** Removes the shares of deleted expenses */
+  removeEntriesForTransactions(transactionIds: string[]): Promise<void>;
+}
+
+export type NewPendingConfirmation = Omit<PendingConfirmation, 'id' | 'created_at' | 'status' | 'resolved_at'>;
+
+export type PendingConfirmationChanges = Partial<Pick<PendingConfirmation, 'transactions' | 'missing_fields' | 'question_message_id'>>;
+
+export interface PendingConfirmationRepository {
+  list(status: PendingStatus, limit?: number): Promise<PendingConfirmation[]>;
+  get(id: string): Promise<PendingConfirmation | null>;
+  /** The newest confirmation of a chat still waiting for an answer at `now` */
+  findOpen(whatsappFrom: string, now: string): Promise<PendingConfirmation | null>;
+  insert(pending: NewPendingConfirmation): Promise<PendingConfirmation>;
+  update(id: string, changes: PendingConfirmationChanges): Promise<PendingConfirmation | null>;
+  /** Moves a confirmation out of 'pending'; resolves to null when it was already resolved, so it is never saved twice */
+  resolve(id: string, status: Exclude<PendingStatus, 'pending'>, resolvedAt: string): Promise<PendingConfirmation | null>;
+  /** Puts a confirmed confirmation back to 'pending' when its transactions could not be saved */
+  reopen(id: string): Promise<PendingConfirmation | null>;
+}
+
+export type NewInboundMessage = Omit<InboundMessage, 'id' | 'processed_at'>;
+
+export type InboundMessageChanges = Partial<Pick<InboundMessage, 'text' | 'extracted' | 'outcome' | 'detail' | 'error' | 'latency_ms' | 'processed_at'>>;
+
+export interface InboundMessageQuery {
+  outcomes?: MessageOutcome[];
+  limit?: number;
+}
+
+export interface InboundMessageRepository {
+  /** Newest first */
+  list(query?: InboundMessageQuery): Promise<InboundMessage[]>;
+  get(id: string): Promise<InboundMessage | null>;
+  findByExternalId(externalId: string): Promise<InboundMessage | null>;
+  /** Resolves to null when a message with the same external id was already recorded */
+  insert(message: NewInboundMessage): Promise<InboundMessage | null>;
+  update(id: string, changes: InboundMessageChanges): Promise<InboundMessage | null>;
+}
+
+export interface ExchangeRateRepository {
+  list(): Promise<ExchangeRate[]>;
+  /** Creates the rate or replaces the one for the same currency and day */
+  upsert(currency: string, validFrom: string, rate: number): Promise<ExchangeRate>;
+  remove(id: string): Promise<boolean>;
+}
+
+export type NewRecurringRule = Omit<RecurringRule, 'id' | 'created_at' | 'last_generated_on'>;
+
+export interface RecurringRuleRepository {
+  list(): Promise<RecurringRule[]>;
+  insert(rule: NewRecurringRule): Promise<RecurringRule>;
+  setLastGenerated(id: string, date: string): Promise<void>;
+  remove(id: string): Promise<boolean>;
+}
+
+export interface ReportRepository {
+  list(limit?: number): Promise<MonthlyReport[]>;
+  get(id: string): Promise<MonthlyReport | null>;
+  find(whatsappFrom: string, period: string): Promise<MonthlyReport | null>;
+  insert(report: Omit<MonthlyReport, 'id' | 'created_at'>): Promise<MonthlyReport>;
+  markSent(id: string, sentAt: string): Promise<void>;
+}
+
+export interface AttachmentStore {
+  /** Persists a file and resolves to the reference stored on the transaction; rejects when it could not be stored */
+  save(data: Buffer, mimeType: string, name: string): Promise<string>;
+  /** A URL the dashboard can load for a stored reference; short-lived when the files are private */
+  url(reference: string): Promise<string | null>;
+}
+
+export interface Storage {
+  driver: 'supabase' | 'sqlite';
+  transactions: TransactionRepository;
+  jobs: JobRepository;
+  budgets: BudgetRepository;
+  categories: CategoryRepository;
+  merchantRules: MerchantRuleRepository;
+  exchangeRates: ExchangeRateRepository;
+  accounts: AccountRepository;
+  transfers: TransferRepository;
+  installments: InstallmentPurchaseRepository;
+  groups: GroupRepository;
+  pending: PendingConfirmationRepository;
+  messages: InboundMessageRepository;
+  recurring: RecurringRuleRepository;
+  reports: ReportRepository;
+  attachments: AttachmentStore;
+}
@@ -0,0 +1,107 @@
+import { TransactionChanges, TransactionCursor, TransactionQuery } from './storage';
+import { PAYMENT_METHODS } from './accounts';
+import { calendarDateToTimestamp, dayRangeBounds, isCalendarDate } from './dates';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const EDITABLE_FIELDS = ['amount', 'type', 'category', 'description', 'occurred_at', 'account_id', 'payment_method'];
+
+// Opaque to clients: the keyset of the last row they received
+export function encodeCursor(cursor: TransactionCursor) {
+  return Buffer.from(`${cursor.occurred_at}|${cursor.id}`).toString('base64url');
+}
+
+export function decodeCursor(value: string): TransactionCursor | null {
+  const [occurred_at, id] = Buffer.from(value, 'base64url').toString().split('|');
+  if (!occurred_at || !id || isNaN(new Date(occurred_at).getTime())) return null;
+  return { occurred_at, id };
+}
+
+export function isValidDay(date?: string) {
+  return !date || (isCalendarDate(date) && !isNaN(new Date(`${date}T12:00:00Z`).getTime()));
+}
+
+/**
+ * Turns the shared list filters (`since`/`until` as inclusive YYYY-MM-DD days
+ * in the configured time zone, `type`, `category`, `whatsapp_from`, `q`) into a storage query.
+ * Returns an error message instead when a filter is malformed.
+ */
+export function parseTransactionFilters(params: Record<string, any>): { query: TransactionQuery; error: string | null } {
+  const value = (key: string) => (typeof params[key] === 'string' && params[key].trim() ? params[key].trim() : undefined);
+  const query: TransactionQuery = {};
+
+  const since = value('since');
+  const until = value('until');
+  if (!isValidDay(since) || !isValidDay(until)) {
+    return { query, error: 'since and until must be YYYY-MM-DD dates' };
+  }
+  if (since) query.since = dayRangeBounds(since, since).since;
+  if (until) query.until = dayRangeBounds(until, until).until;
+
+  const type = value('type');
+  if (type && type !== 'income' && type !== 'expense') {
+    return { query, error: 'type must be income or expense' };
+  }
+  query.type = type as TransactionQuery['type'];
+  query.category = value('category');
+  query.whatsappFrom = value('whatsapp_from');
+  query.search = value('q');
+
+  return { query, error: null };
+}
+
+/** Checks a PATCH body field by field against the Transaction type; unknown and read-only fields are rejected */
+export function validateTransactionChanges(body: any): { changes: TransactionChanges; error: string | null } {
+  const changes: TransactionChanges = {};
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { changes, error: 'Body must be an object' };
+  }
+
+  const unknown = Object.keys(body).filter((key) => !EDITABLE_FIELDS.includes(key));
+  if (unknown.length > 0) return { changes, error: `Fields cannot be edited: ${unknown.join(', ')}` };
+
+  if ('amount' in body) {
+    const amount = Number(body.amount);
+    if (typeof body.amount === 'boolean' || !Number.isFinite(amount) || amount <= 0) {
+      return { changes, error: 'amount must be a positive number' };
+    }
+    changes.amount = Math.round(amount * 100) / 100;
+  }
+  if ('type' in body) {
+    if (body.type !== 'income' && body.type !== 'expense') return { changes, error: 'type must be income or expense' };
+    changes.type = body.type;
+  }
+  for (const field of ['category', 'description'] as const) {
+    if (field in body) {
+      if (typeof body[field] !== 'string' || !body[field].trim()) return { changes, error: `${field} must be a non-empty string` };
+      changes[field] = body[field].trim();
+    }
+  }
+  if ('occurred_at' in body) {
+    // A bare YYYY-MM-DD from a date picker is pinned to midday in the configured time zone
+    const value = typeof body.occurred_at === 'string' && isCalendarDate(body.occurred_at)
+      ? calendarDateToTimestamp(body.occurred_at)
+      : body.occurred_at;
+    if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+      return { changes, error: 'occurred_at must be an ISO 8601 date' };
+    }
+    changes.occurred_at = new Date(value).toISOString();
+  }
+  // Null detaches the transaction from its account or clears the method; the account itself is checked by the caller
+  if ('account_id' in body) {
+    if (body.account_id !== null && (typeof body.account_id !== 'string' || !body.account_id)) {
+      return { changes, error: 'account_id must be an account id or null' };
+    }
+    changes.account_id = body.account_id;
+  }
+  if ('payment_method' in body) {
+    if (body.payment_method !== null && !PAYMENT_METHODS.includes(body.payment_method)) {
+      return { changes, error: `payment_method must be one of ${PAYMENT_METHODS.join(', ')} or null` };
+    }
+    changes.payment_method = body.payment_method;
+  }
+
+  if (Object.keys(changes).length === 0) return { changes, error: 'No changes given' };
+  return { changes, error: null };
+}
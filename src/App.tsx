@@ -1,5 +1,4 @@
-import React, { useEffect, useState } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   Wallet, 
   TrendingUp, 
@@ -16,64 +15,264 @@ import {
   Send,
   Loader2,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  AlertTriangle,
+  RotateCcw,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  Search
 } from 'lucide-react';
 import { 
-  BarChart, 
-  Bar, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
   Tooltip, 
   ResponsiveContainer,
   Cell,
   PieChart,
   Pie
 } from 'recharts';
-import { format } from 'date-fns';
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { Transaction } from './types';
+import { Category, DashboardStats, Transaction, WebhookJob } from './types';
 import { motion, AnimatePresence } from 'motion/react';
-
-const supabaseUrl = process.env.SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_ANON_KEY || '';
-const supabase = createClient(supabaseUrl, supabaseKey);
+import BudgetsPanel from './components/BudgetsPanel';
+import RecurringPanel from './components/RecurringPanel';
+import ReportsPanel from './components/ReportsPanel';
+import ImportPanel from './components/ImportPanel';
+import ExportPanel from './components/ExportPanel';
+import CashFlowChart from './components/CashFlowChart';
+import CategoriesPanel, { sortCategoryTree } from './components/CategoriesPanel';
+import ExchangeRatesPanel from './components/ExchangeRatesPanel';
+import AccountsPanel from './components/AccountsPanel';
+import InstallmentsPanel from './components/InstallmentsPanel';
+import PendingPanel from './components/PendingPanel';
+import InboxPanel from './components/InboxPanel';
 
 const COLORS = ['#10b981', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899'];
+const REFRESH_INTERVAL_MS = 15000;
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type PeriodPreset = 'this-month' | 'last-month' | 'custom';
+
+interface DateRange {
+  since: string;
+  until: string;
+}
+
+function presetRange(preset: PeriodPreset, custom: DateRange): DateRange | null {
+  if (preset === 'custom') {
+    return custom.since && custom.until && custom.since <= custom.until ? custom : null;
+  }
+  const month = preset === 'last-month' ? subMonths(new Date(), 1) : new Date();
+  return { since: format(startOfMonth(month), 'yyyy-MM-dd'), until: format(endOfMonth(month), 'yyyy-MM-dd') };
+}
+
+function formatCurrency(value: number, currency = 'BRL') {
+  return value.toLocaleString('pt-BR', { style: 'currency', currency });
+}
+
+// Relative change against the previous period; null when there is nothing to compare with
+function percentChange(current: number, previous: number) {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+type TransactionDraft = Pick<Transaction, 'id' | 'type' | 'category' | 'description'> & { amount: string; date: string };
 
 interface SystemStatus {
-  supabase: boolean;
+  storage: boolean;
+  driver: 'supabase' | 'sqlite';
   gemini: boolean;
   waha: boolean;
   env: {
-    supabase: boolean;
+    storage: boolean;
     gemini: boolean;
     waha: boolean;
   };
 }
 
 export default function App() {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [period, setPeriod] = useState<PeriodPreset>('this-month');
+  const [customRange, setCustomRange] = useState<DateRange>({ since: '', until: '' });
+  const [rows, setRows] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [bucketFilter, setBucketFilter] = useState<(DateRange & { label: string }) | null>(null);
+  const [draft, setDraft] = useState<TransactionDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const tableRequest = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [status, setStatus] = useState<SystemStatus | null>(null);
   const [simulationText, setSimulationText] = useState('');
   const [simulating, setSimulating] = useState(false);
   const [simResult, setSimResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [deadJobs, setDeadJobs] = useState<WebhookJob[]>([]);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const range = presetRange(period, customRange);
+
+  const fetchCategories = async () => {
+    try {
+      const res = await fetch('/api/categories');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setCategories(data);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
 
-  const fetchTransactions = async () => {
-    setLoading(true);
+  const fetchStats = async () => {
+    if (!range) return;
     try {
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const res = await fetch(`/api/stats?since=${range.since}&until=${range.until}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setStats(data);
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+    }
+  };
+
+  // Loads the table from the start (or the next page when given a cursor); `limit` lets a refresh keep what was already scrolled
+  const fetchTablePage = async (cursor: string | null, limit = PAGE_SIZE) => {
+    const request = ++tableRequest.current;
+    const params = new URLSearchParams({ limit: String(Math.min(limit, MAX_PAGE_SIZE)) });
+    if (search.trim()) params.set('q', search.trim());
+    if (typeFilter) params.set('type', typeFilter);
+    if (bucketFilter) {
+      params.set('since', bucketFilter.since);
+      params.set('until', bucketFilter.until);
+    }
+    if (cursor) params.set('cursor', cursor);
+
+    if (cursor) setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/transactions?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      // A newer filter or refresh has already replaced this request
+      if (request !== tableRequest.current) return;
+      setRows((prev) => (cursor ? [...prev, ...data.data] : data.data));
+      setNextCursor(data.next_cursor);
+    } catch (error) {
+      console.error('Error fetching transactions page:', error);
+    } finally {
+      if (request === tableRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const refreshAll = () => {
+    fetchStats();
+    fetchTablePage(null, Math.max(rows.length, PAGE_SIZE));
+  };
+
+  const startEditing = (t: Transaction) => {
+    setDraft({
+      id: t.id,
+      type: t.type,
+      category: t.category,
+      description: t.description,
+      // Edited in the currency the transaction was made in
+      amount: String(t.original_amount ?? t.amount),
+      date: format(new Date(t.occurred_at), 'yyyy-MM-dd'),
+    });
+  };
+
+  // A manual recategorization can become a merchant rule so the next similar entry lands in the right place
+  const offerMerchantRule = async (description: string, category: string) => {
+    const pattern = prompt(`Sempre usar "${category}" para descrições contendo:`, description.toLowerCase());
+    if (!pattern?.trim()) return;
+    try {
+      const res = await fetch('/api/merchant-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pattern, category }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      fetchCategories();
+    } catch (error: any) {
+      console.error('Error saving merchant rule:', error);
+      alert(`Não foi possível salvar a regra: ${error.message}`);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!draft) return;
+    const original = rows.find((t) => t.id === draft.id);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/transactions/${draft.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: draft.type,
+          category: draft.category,
+          description: draft.description,
+          amount: Number(draft.amount.replace(',', '.')),
+          // Only a changed day is sent, so the original time of day survives other edits
+          ...(original && draft.date !== format(new Date(original.occurred_at), 'yyyy-MM-dd') ? { occurred_at: draft.date } : {}),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setRows((prev) => prev.map((t) => (t.id === data.id ? data : t)));
+      setDraft(null);
+      fetchStats();
+      if (original && original.category !== data.category) {
+        await offerMerchantRule(data.description, data.category);
+      }
+    } catch (error: any) {
+      console.error('Error updating transaction:', error);
+      alert(`Não foi possível salvar: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (t: Transaction) => {
+    if (!confirm(`Excluir "${t.description}"?`)) return;
+    try {
+      const res = await fetch(`/api/transactions/${t.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setRows((prev) => prev.filter((row) => row.id !== t.id));
+      fetchStats();
+    } catch (error: any) {
+      console.error('Error deleting transaction:', error);
+      alert(`Não foi possível excluir: ${error.message}`);
+    }
+  };
+
+  const fetchDeadJobs = async () => {
+    try {
+      const res = await fetch('/api/jobs/dead');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setDeadJobs(data);
+    } catch (error) {
+      console.error('Error fetching failed messages:', error);
+    }
+  };
 
-      if (error) throw error;
-      setTransactions(data || []);
+  const handleReplay = async (id: string) => {
+    setReplaying(id);
+    try {
+      const res = await fetch(`/api/jobs/${id}/replay`, { method: 'POST' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setDeadJobs((prev) => prev.filter((job) => job.id !== id));
     } catch (error) {
-      console.error('Error fetching transactions:', error);
+      console.error('Error replaying message:', error);
     } finally {
-      setLoading(false);
+      setReplaying(null);
     }
   };
 
@@ -88,25 +287,42 @@ export default function App() {
   };
 
   useEffect(() => {
-    fetchTransactions();
+    fetchCategories();
+    fetchDeadJobs();
     checkStatus();
 
-    const channel = supabase
-      .channel('schema-db-changes')
-      .on(
-        'postgres_changes',
-        { event: 'INSERT', schema: 'public', table: 'transactions' },
-        (payload) => {
-          setTransactions((prev) => [payload.new as Transaction, ...prev]);
-        }
-      )
-      .subscribe();
+    // WhatsApp entries arrive server-side, so poll quietly to pick them up
+    const interval = setInterval(fetchDeadJobs, REFRESH_INTERVAL_MS);
 
     return () => {
-      supabase.removeChannel(channel);
+      clearInterval(interval);
     };
   }, []);
 
+  useEffect(() => {
+    if (!range) return;
+    fetchStats();
+    const interval = setInterval(fetchStats, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [range?.since, range?.until]);
+
+  // Reload the table after every poll or filter change, keeping as many rows as were already scrolled into view
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchTablePage(null, Math.max(rows.length, PAGE_SIZE)), 300);
+    return () => clearTimeout(timeout);
+  }, [stats, search, typeFilter, bucketFilter]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchTablePage(nextCursor);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
   const handleSimulate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!simulationText.trim()) return;
@@ -121,8 +337,18 @@ export default function App() {
       });
       const data = await res.json();
       if (data.success) {
-        setSimResult({ success: true, message: 'Transação processada com sucesso!' });
+        setSimResult({
+          success: true,
+          message: data.transfers
+            ? 'Transferência registrada com sucesso!'
+            : data.pending
+              ? 'Mensagem ambígua: confirme a transação em Aguardando Confirmação.'
+              : data.transactions.length > 1
+                ? `${data.transactions.length} transações processadas com sucesso!`
+                : 'Transação processada com sucesso!',
+        });
         setSimulationText('');
+        fetchStats();
       } else {
         setSimResult({ success: false, message: data.error || 'Falha ao processar.' });
       }
@@ -134,27 +360,11 @@ export default function App() {
     }
   };
 
-  const totalIncome = transactions
-    .filter((t) => t.type === 'income')
-    .reduce((acc, t) => acc + t.amount, 0);
-
-  const totalExpenses = transactions
-    .filter((t) => t.type === 'expense')
-    .reduce((acc, t) => acc + t.amount, 0);
-
-  const balance = totalIncome - totalExpenses;
-
-  const categoryData = transactions
-    .filter((t) => t.type === 'expense')
-    .reduce((acc: any[], t) => {
-      const existing = acc.find((item) => item.name === t.category);
-      if (existing) {
-        existing.value += t.amount;
-      } else {
-        acc.push({ name: t.category, value: t.amount });
-      }
-      return acc;
-    }, []);
+  const categoryData = (stats?.categories || []).map((item, index) => ({
+    name: item.category,
+    value: item.amount,
+    color: categories.find((c) => c.name === item.category)?.color || COLORS[index % COLORS.length],
+  }));
 
   return (
     <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans p-4 md:p-8">
@@ -171,13 +381,41 @@ export default function App() {
             </h1>
             <p className="text-muted-foreground flex items-center gap-2 mt-1">
               <Activity className="w-4 h-4 text-emerald-500 animate-pulse" />
-              Conectado ao Supabase & Gemini AI
+              Conectado ao {status?.driver === 'sqlite' ? 'SQLite' : 'Supabase'} & Gemini AI
             </p>
           </motion.div>
           
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center gap-3">
             <div className="bg-white px-4 py-2 rounded-2xl shadow-sm border border-black/5 flex items-center gap-2">
               <Calendar className="w-4 h-4 text-emerald-600" />
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as PeriodPreset)}
+                className="text-sm font-medium bg-transparent focus:outline-none"
+              >
+                <option value="this-month">Este mês</option>
+                <option value="last-month">Mês passado</option>
+                <option value="custom">Personalizado</option>
+              </select>
+            </div>
+            {period === 'custom' && (
+              <div className="bg-white px-4 py-2 rounded-2xl shadow-sm border border-black/5 flex items-center gap-2 text-sm">
+                <input
+                  type="date"
+                  value={customRange.since}
+                  onChange={(e) => setCustomRange({ ...customRange, since: e.target.value })}
+                  className="bg-transparent focus:outline-none"
+                />
+                <span className="text-muted-foreground">até</span>
+                <input
+                  type="date"
+                  value={customRange.until}
+                  onChange={(e) => setCustomRange({ ...customRange, until: e.target.value })}
+                  className="bg-transparent focus:outline-none"
+                />
+              </div>
+            )}
+            <div className="bg-white px-4 py-2 rounded-2xl shadow-sm border border-black/5 flex items-center gap-2">
               <span className="text-sm font-medium">
                 {format(new Date(), "EEEE, d 'de' MMMM", { locale: ptBR })}
               </span>
@@ -188,9 +426,9 @@ export default function App() {
         {/* Status Dashboard */}
         <section className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
           <StatusCard 
-            label="Supabase" 
-            connected={status?.supabase || false} 
-            configured={status?.env.supabase || false} 
+            label={status?.driver === 'sqlite' ? 'SQLite' : 'Supabase'} 
+            connected={status?.storage || false} 
+            configured={status?.env.storage || false} 
           />
           <StatusCard 
             label="Gemini AI" 
@@ -214,27 +452,36 @@ export default function App() {
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <StatCard 
-            label="Saldo Atual" 
-            value={balance} 
+            label="Saldo do Período" 
+            value={stats?.balance || 0} 
             icon={<Wallet className="w-12 h-12" />}
-            trend="+2.5% este mês"
+            change={stats ? percentChange(stats.balance, stats.previous.balance) : null}
           />
           <StatCard 
             label="Entradas" 
-            value={totalIncome} 
+            value={stats?.totalIncome || 0} 
             icon={<ArrowUpRight className="w-12 h-12 text-emerald-500" />}
             color="text-emerald-600"
+            change={stats ? percentChange(stats.totalIncome, stats.previous.totalIncome) : null}
           />
           <StatCard 
             label="Saídas" 
-            value={totalExpenses} 
+            value={stats?.totalExpenses || 0} 
             icon={<ArrowDownRight className="w-12 h-12 text-red-500" />}
             color="text-red-600"
+            change={stats ? percentChange(stats.totalExpenses, stats.previous.totalExpenses) : null}
+            increaseIsGood={false}
           />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2 space-y-8">
+            <CashFlowChart
+              range={range}
+              refreshKey={stats}
+              onSelect={(bucket, label) => setBucketFilter({ since: bucket.since, until: bucket.until, label })}
+            />
+
             {/* Simulator Section */}
             <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
               <div className="flex items-center justify-between mb-4">
@@ -275,16 +522,49 @@ export default function App() {
               </AnimatePresence>
             </section>
 
+            <ExportPanel categories={categories.map((c) => c.name)} range={range} />
+
             {/* Recent Transactions */}
             <section className="bg-white rounded-3xl shadow-sm border border-black/5 overflow-hidden">
-              <div className="p-6 border-bottom border-black/5 flex items-center justify-between">
-                <h3 className="text-xl font-bold">Transações Recentes</h3>
-                <button 
-                  onClick={fetchTransactions}
-                  className="text-sm font-medium text-emerald-600 hover:underline"
-                >
-                  Atualizar
-                </button>
+              <div className="p-6 border-bottom border-black/5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <h3 className="text-xl font-bold">Transações Recentes</h3>
+                  {bucketFilter && (
+                    <span className="flex items-center gap-1 text-xs font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-full">
+                      {bucketFilter.label}
+                      <button onClick={() => setBucketFilter(null)} title="Limpar filtro" className="hover:text-emerald-900">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="relative">
+                    <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      type="search"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Buscar..."
+                      className="text-sm bg-slate-50 border border-black/5 rounded-xl pl-9 pr-3 py-2 w-40 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                  </div>
+                  <select
+                    value={typeFilter}
+                    onChange={(e) => setTypeFilter(e.target.value)}
+                    className="text-sm bg-slate-50 border border-black/5 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="">Todas</option>
+                    <option value="income">Receitas</option>
+                    <option value="expense">Despesas</option>
+                  </select>
+                  <button 
+                    onClick={refreshAll}
+                    className="text-sm font-medium text-emerald-600 hover:underline"
+                  >
+                    Atualizar
+                  </button>
+                </div>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-left">
@@ -294,19 +574,20 @@ export default function App() {
                       <th className="px-6 py-4 font-semibold">Descrição</th>
                       <th className="px-6 py-4 font-semibold">Categoria</th>
                       <th className="px-6 py-4 font-semibold text-right">Valor</th>
+                      <th className="px-2 py-4"></th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-black/5">
                     {loading ? (
                       <tr>
-                        <td colSpan={4} className="px-6 py-8 text-center text-muted-foreground">
+                        <td colSpan={5} className="px-6 py-8 text-center text-muted-foreground">
                           <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2" />
                           Carregando...
                         </td>
                       </tr>
-                    ) : transactions.length === 0 ? (
+                    ) : rows.length === 0 ? (
                       <tr>
-                        <td colSpan={4} className="px-6 py-12 text-center">
+                        <td colSpan={5} className="px-6 py-12 text-center">
                           <div className="max-w-xs mx-auto">
                             <MessageSquare className="w-12 h-12 text-slate-200 mx-auto mb-4" />
                             <p className="text-muted-foreground font-medium">Nenhuma transação encontrada.</p>
@@ -315,7 +596,74 @@ export default function App() {
                         </td>
                       </tr>
                     ) : (
-                      transactions.map((t) => (
+                      rows.map((t) => draft?.id === t.id ? (
+                        <tr key={t.id} className="bg-emerald-50/40">
+                          <td className="px-6 py-4">
+                            <input
+                              type="date"
+                              value={draft.date}
+                              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                              className="text-sm bg-white border border-black/10 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            />
+                          </td>
+                          <td className="px-6 py-4">
+                            <input
+                              value={draft.description}
+                              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                              className="w-full text-sm bg-white border border-black/10 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            />
+                          </td>
+                          <td className="px-6 py-4">
+                            <select
+                              value={draft.category}
+                              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                              className="w-full text-sm bg-white border border-black/10 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500 capitalize"
+                            >
+                              {sortCategoryTree(categories)
+                                .filter((c) => c.type === draft.type || c.name === draft.category)
+                                .map((c) => (
+                                  <option key={c.id} value={c.name}>{c.parent_id ? '— ' : ''}{c.icon} {c.name}</option>
+                                ))}
+                            </select>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="flex items-center justify-end gap-2">
+                              <select
+                                value={draft.type}
+                                onChange={(e) => setDraft({ ...draft, type: e.target.value as Transaction['type'] })}
+                                className="text-sm bg-white border border-black/10 rounded-lg px-1 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                              >
+                                <option value="income">+</option>
+                                <option value="expense">-</option>
+                              </select>
+                              {t.original_amount != null && t.currency !== 'BRL' && (
+                                <span className="text-xs text-muted-foreground">{t.currency}</span>
+                              )}
+                              <input
+                                value={draft.amount}
+                                onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                                inputMode="decimal"
+                                className="w-24 text-sm text-right bg-white border border-black/10 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                              />
+                            </div>
+                          </td>
+                          <td className="px-2 py-4">
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={handleSaveEdit}
+                                disabled={saving}
+                                className="p-1 text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
+                                title="Salvar"
+                              >
+                                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                              </button>
+                              <button onClick={() => setDraft(null)} className="p-1 text-slate-400 hover:text-slate-600" title="Cancelar">
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ) : (
                         <motion.tr 
                           layout
                           initial={{ opacity: 0 }}
@@ -323,16 +671,30 @@ export default function App() {
                           key={t.id} 
                           className="hover:bg-slate-50/50 transition-colors group"
                         >
-                          <td className="px-6 py-4 text-sm text-muted-foreground">
-                            {format(new Date(t.created_at), 'dd/MM/yy HH:mm')}
+                          <td className="px-6 py-4 text-sm text-muted-foreground" title={`Registrada em ${format(new Date(t.created_at), 'dd/MM/yy HH:mm')}`}>
+                            {format(new Date(t.occurred_at), 'dd/MM/yy HH:mm')}
                           </td>
                           <td className="px-6 py-4">
-                            <div className="font-medium">{t.description}</div>
-                            {t.whatsapp_from && (
-                              <div className="text-[10px] text-muted-foreground flex items-center gap-1">
-                                <MessageSquare className="w-2 h-2" /> {t.whatsapp_from}
+                            <div className="flex items-center gap-3">
+                              {t.attachment_url && (
+                                <a href={t.attachment_url} target="_blank" rel="noreferrer" className="shrink-0">
+                                  <img
+                                    src={t.attachment_url}
+                                    alt="Comprovante"
+                                    className="w-10 h-10 rounded-lg object-cover border border-black/5"
+                                  />
+                                </a>
+                              )}
+                              <div>
+                                <div className="font-medium">{t.description}</div>
+                                {t.whatsapp_from && (
+                                  <div className="text-[10px] text-muted-foreground flex items-center gap-1">
+                                    <MessageSquare className="w-2 h-2" /> {t.whatsapp_from}
+                                    {t.paid_by && <span title="Pago por">· {t.paid_by.split('@')[0]}</span>}
+                                  </div>
+                                )}
                               </div>
-                            )}
+                            </div>
                           </td>
                           <td className="px-6 py-4">
                             <span className="px-2 py-1 rounded-lg bg-slate-100 text-[11px] font-bold uppercase tracking-tight">
@@ -340,7 +702,27 @@ export default function App() {
                             </span>
                           </td>
                           <td className={`px-6 py-4 text-right font-bold ${t.type === 'income' ? 'text-emerald-600' : 'text-red-600'}`}>
-                            {t.type === 'income' ? '+' : '-'} R$ {t.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            {t.type === 'income' ? '+' : '-'} {formatCurrency(t.amount)}
+                            {t.original_amount != null && t.currency !== 'BRL' && (
+                              <p className="text-[10px] font-medium text-muted-foreground" title={`Cotação: ${t.exchange_rate}`}>
+                                {formatCurrency(t.original_amount, t.currency)}
+                              </p>
+                            )}
+                            {t.installment_count && (
+                              <p className="text-[10px] font-medium text-muted-foreground">
+                                Parcela {t.installment_number}/{t.installment_count}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-2 py-4">
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button onClick={() => startEditing(t)} className="p-1 text-slate-400 hover:text-emerald-600" title="Editar">
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => handleDelete(t)} className="p-1 text-slate-400 hover:text-red-600" title="Excluir">
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
                           </td>
                         </motion.tr>
                       ))
@@ -348,11 +730,24 @@ export default function App() {
                   </tbody>
                 </table>
               </div>
+              {/* Scrolling this into view loads the next page */}
+              <div ref={loadMoreRef} className="py-4 text-center text-xs text-muted-foreground">
+                {loadingMore && <Loader2 className="w-4 h-4 animate-spin mx-auto" />}
+                {!loading && !nextCursor && rows.length > PAGE_SIZE && 'Fim das transações'}
+              </div>
             </section>
+
+            <InboxPanel categories={categories} refreshKey={stats} onChanged={refreshAll} />
+
+            <ImportPanel onImported={refreshAll} />
+
+            <ReportsPanel />
           </div>
 
           {/* Sidebar Charts */}
           <div className="space-y-8">
+            <PendingPanel refreshKey={stats} onChanged={refreshAll} />
+
             <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
               <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
                 <PieChartIcon className="w-5 h-5 text-emerald-600" />
@@ -372,7 +767,7 @@ export default function App() {
                         dataKey="value"
                       >
                         {categoryData.map((entry: any, index: number) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                       </Pie>
                       <Tooltip 
@@ -391,7 +786,7 @@ export default function App() {
                 {categoryData.map((item: any, index: number) => (
                   <div key={item.name} className="flex items-center justify-between text-sm">
                     <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }} />
                       <span className="text-muted-foreground">{item.name}</span>
                     </div>
                     <span className="font-medium">R$ {item.value.toFixed(2)}</span>
@@ -400,6 +795,53 @@ export default function App() {
               </div>
             </section>
 
+            <BudgetsPanel categories={categories} refreshKey={stats} />
+
+            <CategoriesPanel categories={categories} onChanged={fetchCategories} />
+
+            <RecurringPanel balance={stats?.currentBalance || 0} refreshKey={stats} />
+
+            <AccountsPanel refreshKey={stats} onChanged={fetchStats} />
+
+            <InstallmentsPanel refreshKey={stats} onChanged={refreshAll} />
+
+            <ExchangeRatesPanel />
+
+            {/* Dead-letter Messages */}
+            {deadJobs.length > 0 && (
+              <section className="bg-white p-6 rounded-3xl shadow-sm border border-red-100">
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5 text-red-500" />
+                  Mensagens com Falha
+                </h3>
+                <div className="space-y-3 max-h-[320px] overflow-y-auto pr-2 custom-scrollbar">
+                  {deadJobs.map((job) => (
+                    <div key={job.id} className="p-3 rounded-xl bg-red-50/50 border border-red-100 text-sm">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{job.payload?.body || `[${job.payload?.type || 'mídia'}]`}</p>
+                          <p className="text-[10px] text-muted-foreground">
+                            {job.payload?.from} · {job.attempts} tentativas · {format(new Date(job.updated_at), 'dd/MM HH:mm')}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleReplay(job.id)}
+                          disabled={replaying === job.id}
+                          className="shrink-0 text-xs font-bold text-emerald-700 bg-emerald-50 px-2 py-1 rounded-lg hover:bg-emerald-100 disabled:opacity-50 flex items-center gap-1"
+                        >
+                          {replaying === job.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                          Reprocessar
+                        </button>
+                      </div>
+                      {job.last_error && (
+                        <p className="mt-2 text-[11px] text-red-700 break-words">{job.last_error}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
             {/* WAHA Info */}
             <section className="bg-emerald-600 p-6 rounded-3xl shadow-lg text-white relative overflow-hidden">
               <div className="absolute -right-4 -bottom-4 opacity-10">
@@ -448,7 +890,22 @@ function StatusCard({ label, connected, configured }: { label: string; connected
   );
 }
 
-function StatCard({ label, value, icon, trend, color = "text-[#1A1A1A]" }: { label: string; value: number; icon: React.ReactNode; trend?: string; color?: string }) {
+function StatCard({
+  label,
+  value,
+  icon,
+  change,
+  increaseIsGood = true,
+  color = "text-[#1A1A1A]",
+}: {
+  label: string;
+  value: number;
+  icon: React.ReactNode;
+  change?: number | null;
+  increaseIsGood?: boolean;
+  color?: string;
+}) {
+  const good = change !== null && change !== undefined && (change >= 0) === increaseIsGood;
   return (
     <div className="bg-white p-6 rounded-3xl shadow-sm border border-black/5 relative overflow-hidden group">
       <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
@@ -456,12 +913,12 @@ function StatCard({ label, value, icon, trend, color = "text-[#1A1A1A]" }: { lab
       </div>
       <p className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</p>
       <h2 className={`text-4xl font-bold tabular-nums ${color}`}>
-        R$ {value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+        {formatCurrency(value)}
       </h2>
-      {trend && (
-        <div className="mt-4 flex items-center gap-2 text-xs font-medium px-2 py-1 bg-emerald-50 text-emerald-700 rounded-full w-fit">
-          <TrendingUp className="w-3 h-3" />
-          {trend}
+      {change !== null && change !== undefined && (
+        <div className={`mt-4 flex items-center gap-2 text-xs font-medium px-2 py-1 rounded-full w-fit ${good ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+          {change >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+          {change >= 0 ? '+' : ''}{change.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}% vs período anterior
         </div>
       )}
     </div>
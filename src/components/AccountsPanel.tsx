@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { Wallet, CreditCard, Trash2, Plus, Loader2, ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { AccountBalance, AccountKind, Invoice } from '../types';
+
+const KIND_LABELS: Record<AccountKind, string> = {
+  checking: 'Conta corrente',
+  savings: 'Poupança',
+  cash: 'Dinheiro',
+  credit_card: 'Cartão de crédito',
+};
+
+const INVOICE_STATUS_LABELS: Record<Invoice['status'], string> = {
+  open: 'Aberta',
+  closed: 'Fechada',
+  paid: 'Paga',
+};
+
+function formatMoney(value: number) {
+  return `${value < 0 ? '-' : ''}R$ ${Math.abs(value).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function parseAmount(value: string) {
+  return parseFloat(value.replace(/\./g, '').replace(',', '.'));
+}
+
+// Invoice dates are calendar days; parse them as local midday so they never shift a day
+function formatCalendarDate(date: string) {
+  return format(new Date(`${date}T12:00:00`), 'dd/MM');
+}
+
+const inputClassName = 'bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+export default function AccountsPanel({ refreshKey, onChanged }: { refreshKey: unknown; onChanged: () => void }) {
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [unassigned, setUnassigned] = useState(0);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('checking');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [closingDay, setClosingDay] = useState('');
+  const [dueDay, setDueDay] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [transferAmount, setTransferAmount] = useState('');
+  const [transferring, setTransferring] = useState(false);
+
+  const fetchAccounts = async () => {
+    try {
+      const [accountsRes, invoicesRes] = await Promise.all([fetch('/api/accounts'), fetch('/api/invoices/upcoming')]);
+      const [accountsData, invoicesData] = await Promise.all([accountsRes.json(), invoicesRes.json()]);
+      if (!accountsRes.ok) throw new Error(accountsData.error);
+      if (!invoicesRes.ok) throw new Error(invoicesData.error);
+      setAccounts(accountsData.accounts);
+      setUnassigned(accountsData.unassigned);
+      setInvoices(invoicesData);
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [refreshKey]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          kind,
+          opening_balance: openingBalance.trim() ? parseAmount(openingBalance) : 0,
+          ...(kind === 'credit_card' ? { closing_day: Number(closingDay), due_day: Number(dueDay) } : {}),
+        }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setName('');
+      setOpeningBalance('');
+      setClosingDay('');
+      setDueDay('');
+      await fetchAccounts();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error creating account:', error);
+      alert(`Não foi possível criar a conta: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/accounts/${id}`, { method: 'DELETE' });
+      if (res.status === 409) {
+        alert('Esta conta tem transações ou transferências e não pode ser removida.');
+        return;
+      }
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchAccounts();
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+    }
+  };
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseAmount(transferAmount);
+    if (!fromId || !toId || fromId === toId || !(amount > 0)) return;
+
+    setTransferring(true);
+    try {
+      const res = await fetch('/api/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from_account_id: fromId, to_account_id: toId, amount }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setTransferAmount('');
+      await fetchAccounts();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error creating transfer:', error);
+      alert(`Não foi possível registrar a transferência: ${error.message}`);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const isCard = kind === 'credit_card';
+  const validDay = (value: string) => Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 31;
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Wallet className="w-5 h-5 text-emerald-600" />
+        Contas e Cartões
+      </h3>
+      <p className="text-xs text-muted-foreground mb-6">
+        Mensagens como "gastei 50 no mercado no cartão Nubank" ou "transferi 500 do Itaú para o Nubank" usam os nomes cadastrados aqui.
+      </p>
+
+      <div className="space-y-2">
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">Nenhuma conta cadastrada</p>
+        ) : (
+          accounts.map((account) => (
+            <div key={account.id} className="group flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 min-w-0">
+                {account.kind === 'credit_card'
+                  ? <CreditCard className="w-4 h-4 text-slate-400 shrink-0" />
+                  : <Wallet className="w-4 h-4 text-slate-400 shrink-0" />}
+                <span className="truncate">
+                  <span className="font-bold">{account.name}</span>
+                  <span className="text-muted-foreground">
+                    {' '}· {KIND_LABELS[account.kind]}
+                    {account.kind === 'credit_card' && ` (fecha dia ${account.closing_day}, vence dia ${account.due_day})`}
+                  </span>
+                </span>
+              </span>
+              <div className="flex items-center gap-2">
+                <span className={`tabular-nums font-medium ${account.balance < 0 ? 'text-red-600' : ''}`}>
+                  {formatMoney(account.balance)}
+                </span>
+                <button
+                  onClick={() => handleDelete(account.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-400 hover:text-red-500"
+                  title="Remover conta"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+        {unassigned !== 0 && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span className="italic">Sem conta</span>
+            <span className="tabular-nums">{formatMoney(unassigned)}</span>
+          </div>
+        )}
+      </div>
+
+      {invoices.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-2">Próximas faturas</h4>
+          <div className="space-y-2">
+            {invoices.map((invoice) => (
+              <div
+                key={`${invoice.account_id}-${invoice.closing_date}`}
+                className="flex items-center justify-between p-3 rounded-2xl bg-slate-50 text-sm"
+              >
+                <div>
+                  <p className="font-medium">{invoice.account_name}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {INVOICE_STATUS_LABELS[invoice.status]} · fecha {formatCalendarDate(invoice.closing_date)} · vence {formatCalendarDate(invoice.due_date)}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-bold tabular-nums">{formatMoney((Math.round(invoice.total * 100) - Math.round(invoice.paid * 100)) / 100)}</p>
+                  {invoice.paid > 0 && (
+                    <p className="text-[10px] text-muted-foreground">de {formatMoney(invoice.total)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {accounts.length > 1 && (
+        <form onSubmit={handleTransfer} className="mt-6 space-y-2">
+          <h4 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Transferência ou pagamento de fatura</h4>
+          <div className="flex items-center gap-2">
+            <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={`flex-1 min-w-0 ${inputClassName}`}>
+              <option value="">De…</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+            <ArrowRight className="w-4 h-4 text-slate-400 shrink-0" />
+            <select value={toId} onChange={(e) => setToId(e.target.value)} className={`flex-1 min-w-0 ${inputClassName}`}>
+              <option value="">Para…</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={transferAmount}
+              onChange={(e) => setTransferAmount(e.target.value)}
+              placeholder="Valor (R$)"
+              className={`flex-1 min-w-0 ${inputClassName}`}
+            />
+            <button
+              disabled={transferring || !fromId || !toId || fromId === toId || !transferAmount.trim()}
+              className="bg-emerald-600 text-white px-3 py-2 rounded-xl hover:bg-emerald-700 transition-colors disabled:opacity-50"
+              title="Registrar transferência"
+            >
+              {transferring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-6 space-y-2">
+        <h4 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Nova conta</h4>
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome (ex: Nubank)"
+            className={`flex-1 min-w-0 ${inputClassName}`}
+          />
+          <select value={kind} onChange={(e) => setKind(e.target.value as AccountKind)} className={inputClassName}>
+            {(Object.keys(KIND_LABELS) as AccountKind[]).map((value) => (
+              <option key={value} value={value}>{KIND_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          {isCard && (
+            <>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={closingDay}
+                onChange={(e) => setClosingDay(e.target.value)}
+                placeholder="Fecha dia"
+                className={`w-24 ${inputClassName}`}
+              />
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={dueDay}
+                onChange={(e) => setDueDay(e.target.value)}
+                placeholder="Vence dia"
+                className={`w-24 ${inputClassName}`}
+              />
+            </>
+          )}
+          <input
+            type="text"
+            inputMode="decimal"
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(e.target.value)}
+            placeholder={isCard ? 'Dívida atual (-)' : 'Saldo inicial'}
+            className={`flex-1 min-w-0 ${inputClassName}`}
+          />
+          <button
+            disabled={saving || !name.trim() || (isCard && (!validDay(closingDay) || !validDay(dueDay)))}
+            className="bg-emerald-600 text-white px-3 py-2 rounded-xl hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            title="Adicionar conta"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
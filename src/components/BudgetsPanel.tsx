@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Target, Trash2, Plus, Loader2 } from 'lucide-react';
+import { BudgetStatus, Category } from '../types';
+
+const WARNING_PERCENTAGE = 80;
+
+function barColor(percentage: number) {
+  if (percentage > 100) return 'bg-red-500';
+  if (percentage >= WARNING_PERCENTAGE) return 'bg-amber-500';
+  return 'bg-emerald-500';
+}
+
+export default function BudgetsPanel({ categories, refreshKey }: { categories: Category[]; refreshKey: unknown }) {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [category, setCategory] = useState('');
+  const [limit, setLimit] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchBudgets = async () => {
+    try {
+      const res = await fetch('/api/budgets');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setBudgets(data);
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [refreshKey]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const monthlyLimit = parseFloat(limit.replace(/\./g, '').replace(',', '.'));
+    if (!category.trim() || !(monthlyLimit > 0)) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/budgets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category, monthly_limit: monthlyLimit }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setCategory('');
+      setLimit('');
+      await fetchBudgets();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/budgets/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setBudgets((prev) => prev.filter((budget) => budget.id !== id));
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+    }
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+        <Target className="w-5 h-5 text-emerald-600" />
+        Orçamentos do Mês
+      </h3>
+
+      <div className="space-y-4">
+        {budgets.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">Nenhum orçamento definido</p>
+        ) : (
+          budgets.map((budget) => (
+            <div key={budget.id} className="group">
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium capitalize">{budget.category}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    R$ {budget.spent.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} / R$ {budget.monthly_limit.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(budget.id)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-400 hover:text-red-500"
+                    title="Remover orçamento"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+              <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all ${barColor(budget.percentage)}`}
+                  style={{ width: `${Math.min(budget.percentage, 100)}%` }}
+                />
+              </div>
+              <p className={`text-[10px] mt-1 font-bold ${budget.percentage > 100 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {Math.round(budget.percentage)}% usado
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="mt-6 flex gap-2">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="flex-1 min-w-0 bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 capitalize"
+        >
+          <option value="">Categoria</option>
+          {categories
+            .filter((c) => c.type === 'expense')
+            .map((c) => (
+              <option key={c.id} value={c.name}>{c.icon} {c.name}</option>
+            ))}
+        </select>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          placeholder="Limite (R$)"
+          className="w-28 bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+        <button
+          disabled={saving || !category.trim() || !limit.trim()}
+          className="bg-emerald-600 text-white px-3 py-2 rounded-xl hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          title="Salvar orçamento"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </form>
+    </section>
+  );
+}
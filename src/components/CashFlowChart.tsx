@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { CashFlowBucket, CashFlowGranularity } from '../types';
+
+const GRANULARITIES: { value: CashFlowGranularity; label: string }[] = [
+  { value: 'day', label: 'Dia' },
+  { value: 'week', label: 'Semana' },
+  { value: 'month', label: 'Mês' },
+];
+
+const MONTHS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+function formatBucket(bucket: Pick<CashFlowBucket, 'since' | 'until'>, granularity: CashFlowGranularity) {
+  const [year, month, day] = bucket.since.split('-');
+  if (granularity === 'month') return `${MONTHS[Number(month) - 1]}/${year.slice(2)}`;
+  if (granularity === 'week' && bucket.until !== bucket.since) {
+    const [, untilMonth, untilDay] = bucket.until.split('-');
+    return `${day}/${month}–${untilDay}/${untilMonth}`;
+  }
+  return `${day}/${month}`;
+}
+
+function formatMoney(value: number) {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`;
+}
+
+export default function CashFlowChart({
+  range,
+  refreshKey,
+  onSelect,
+}: {
+  range: { since: string; until: string } | null;
+  refreshKey: unknown;
+  /** Called with the clicked bucket and its label, to filter the transaction table */
+  onSelect: (bucket: CashFlowBucket, label: string) => void;
+}) {
+  const [granularity, setGranularity] = useState<CashFlowGranularity>('day');
+  const [buckets, setBuckets] = useState<CashFlowBucket[]>([]);
+
+  const fetchCashFlow = async () => {
+    if (!range) return;
+    try {
+      const params = new URLSearchParams({ since: range.since, until: range.until, granularity });
+      const res = await fetch(`/api/cashflow?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setBuckets(data);
+    } catch (error) {
+      console.error('Error fetching cash flow:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCashFlow();
+  }, [range?.since, range?.until, granularity, refreshKey]);
+
+  const data = buckets.map((bucket) => ({ ...bucket, label: formatBucket(bucket, granularity) }));
+  const hasMovement = buckets.some((bucket) => bucket.income > 0 || bucket.expenses > 0);
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-emerald-600" />
+          Fluxo de Caixa
+        </h3>
+        <div className="flex bg-slate-100 rounded-xl p-1">
+          {GRANULARITIES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setGranularity(option.value)}
+              className={`px-3 py-1 text-xs font-bold rounded-lg transition-colors ${granularity === option.value ? 'bg-white shadow-sm text-emerald-700' : 'text-muted-foreground'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-[280px] w-full">
+        {hasMovement ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={70} tickFormatter={(value: number) => value.toLocaleString('pt-BR')} />
+              <Tooltip
+                formatter={(value: number) => formatMoney(value)}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar
+                dataKey="income"
+                name="Entradas"
+                fill="#10b981"
+                radius={[4, 4, 0, 0]}
+                cursor="pointer"
+                onClick={(_, index) => onSelect(buckets[index], data[index].label)}
+              />
+              <Bar
+                dataKey="expenses"
+                name="Saídas"
+                fill="#ef4444"
+                radius={[4, 4, 0, 0]}
+                cursor="pointer"
+                onClick={(_, index) => onSelect(buckets[index], data[index].label)}
+              />
+              <Line type="monotone" dataKey="balance" name="Saldo" stroke="#3b82f6" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-muted-foreground text-sm italic">
+            Sem movimentações no período
+          </div>
+        )}
+      </div>
+      {hasMovement && (
+        <p className="mt-2 text-[10px] text-muted-foreground">Clique em uma barra para ver as transações do período.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Tags, Trash2, Plus, Loader2, ArrowRight } from 'lucide-react';
+import { Category, MerchantRule } from '../types';
+
+const fieldClassName =
+  'bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+/** Top-level categories each followed by their subcategories */
+export function sortCategoryTree(categories: Category[]) {
+  return categories
+    .filter((c) => !c.parent_id)
+    .flatMap((parent) => [parent, ...categories.filter((c) => c.parent_id === parent.id)]);
+}
+
+export default function CategoriesPanel({ categories, onChanged }: { categories: Category[]; onChanged: () => void }) {
+  const [rules, setRules] = useState<MerchantRule[]>([]);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<Category['type']>('expense');
+  const [parentId, setParentId] = useState('');
+  const [icon, setIcon] = useState('');
+  const [color, setColor] = useState('#10b981');
+  const [pattern, setPattern] = useState('');
+  const [ruleCategory, setRuleCategory] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = async () => {
+    try {
+      const res = await fetch('/api/merchant-rules');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setRules(data);
+    } catch (error) {
+      console.error('Error fetching merchant rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [categories]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(url, { headers: { 'Content-Type': 'application/json' }, ...init });
+      if (!res.ok) throw new Error((await res.json()).error);
+      return true;
+    } catch (error: any) {
+      console.error('Error saving categories:', error);
+      setError(error.message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const body = { name, type, parent_id: parentId || null, icon, color };
+    if (await request('/api/categories', { method: 'POST', body: JSON.stringify(body) })) {
+      setName('');
+      setIcon('');
+      setParentId('');
+      onChanged();
+    }
+  };
+
+  const handleDeleteCategory = async (id: string) => {
+    if (await request(`/api/categories/${id}`, { method: 'DELETE' })) onChanged();
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim() || !ruleCategory) return;
+    if (await request('/api/merchant-rules', { method: 'PUT', body: JSON.stringify({ pattern, category: ruleCategory }) })) {
+      setPattern('');
+      fetchRules();
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (await request(`/api/merchant-rules/${id}`, { method: 'DELETE' })) fetchRules();
+  };
+
+  const tree = sortCategoryTree(categories);
+  const parents = categories.filter((c) => !c.parent_id && c.type === type);
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+        <Tags className="w-5 h-5 text-emerald-600" />
+        Categorias
+      </h3>
+
+      <div className="space-y-1 max-h-[240px] overflow-y-auto pr-2 custom-scrollbar">
+        {tree.map((category) => (
+          <div key={category.id} className={`flex items-center justify-between text-sm group ${category.parent_id ? 'pl-6' : ''}`}>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color || '#94a3b8' }} />
+              <span>{category.icon}</span>
+              <span className="capitalize">{category.name}</span>
+              {category.type === 'income' && <span className="text-[10px] text-emerald-600">receita</span>}
+            </div>
+            <button
+              onClick={() => handleDeleteCategory(category.id)}
+              className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remover categoria"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddCategory} className="mt-4 grid grid-cols-2 gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nova categoria" className={`${fieldClassName} col-span-2`} />
+        <select value={type} onChange={(e) => { setType(e.target.value as Category['type']); setParentId(''); }} className={fieldClassName}>
+          <option value="expense">Despesa</option>
+          <option value="income">Receita</option>
+        </select>
+        <select value={parentId} onChange={(e) => setParentId(e.target.value)} className={`${fieldClassName} capitalize`}>
+          <option value="">Sem categoria pai</option>
+          {parents.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <div className="col-span-2 flex gap-2">
+          <input value={icon} onChange={(e) => setIcon(e.target.value)} placeholder="Ícone (emoji)" className={`${fieldClassName} flex-1 min-w-0`} />
+          <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="w-10 h-10 rounded-xl border border-black/5 bg-slate-50 p-1" title="Cor" />
+          <button
+            disabled={saving || !name.trim()}
+            className="bg-emerald-600 text-white px-3 py-2 rounded-xl hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            title="Adicionar categoria"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </button>
+        </div>
+      </form>
+
+      <h4 className="mt-8 mb-3 text-sm font-bold uppercase tracking-wider text-muted-foreground">Regras por estabelecimento</h4>
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          Ao mudar a categoria de uma transação, salve uma regra para as próximas.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between text-sm group">
+              <span className="flex items-center gap-2">
+                <span className="font-mono text-xs bg-slate-100 px-2 py-0.5 rounded">{rule.pattern}</span>
+                <ArrowRight className="w-3 h-3 text-slate-400" />
+                <span className="capitalize">{rule.category}</span>
+              </span>
+              <button
+                onClick={() => handleDeleteRule(rule.id)}
+                className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remover regra"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAddRule} className="mt-4 flex gap-2">
+        <input value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder='Ex: "ifood"' className={`${fieldClassName} flex-1 min-w-0`} />
+        <select value={ruleCategory} onChange={(e) => setRuleCategory(e.target.value)} className={`${fieldClassName} w-32 capitalize`}>
+          <option value="">Categoria</option>
+          {tree.map((c) => (
+            <option key={c.id} value={c.name}>{c.parent_id ? '— ' : ''}{c.name}</option>
+          ))}
+        </select>
+        <button
+          disabled={saving || !pattern.trim() || !ruleCategory}
+          className="bg-emerald-600 text-white px-3 py-2 rounded-xl hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          title="Adicionar regra"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRightLeft, Trash2, Plus, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ExchangeRate } from '../types';
+
+// Shown first in the currency field; any other ISO 4217 code can be typed
+const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'ARS'];
+
+export default function ExchangeRatesPanel() {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [currency, setCurrency] = useState('');
+  const [rate, setRate] = useState('');
+  const [validFrom, setValidFrom] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [saving, setSaving] = useState(false);
+
+  const fetchRates = async () => {
+    try {
+      const res = await fetch('/api/exchange-rates');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setRates(data);
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate.replace(/\./g, '').replace(',', '.'));
+    if (!/^[A-Za-z]{3}$/.test(currency.trim()) || !(value > 0)) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/exchange-rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency: currency.trim().toUpperCase(), rate: value, valid_from: validFrom }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setCurrency('');
+      setRate('');
+      await fetchRates();
+    } catch (error: any) {
+      console.error('Error saving exchange rate:', error);
+      alert(`Não foi possível salvar a cotação: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/exchange-rates/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setRates((prev) => prev.filter((item) => item.id !== id));
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+    }
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <ArrowRightLeft className="w-5 h-5 text-emerald-600" />
+        Câmbio
+      </h3>
+      <p className="text-xs text-muted-foreground mb-6">
+        Valores em outras moedas são convertidos para reais com a cotação vigente na data da transação.
+      </p>
+
+      <div className="space-y-2">
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">Nenhuma cotação cadastrada</p>
+        ) : (
+          rates.map((item) => (
+            <div key={item.id} className="group flex items-center justify-between text-sm">
+              <span>
+                <span className="font-bold">{item.currency}</span>
+                <span className="text-muted-foreground"> desde {format(new Date(`${item.valid_from}T12:00:00`), 'dd/MM/yyyy')}</span>
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="tabular-nums">
+                  R$ {item.rate.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 6 })}
+                </span>
+                <button
+                  onClick={() => handleDelete(item.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-400 hover:text-red-500"
+                  title="Remover cotação"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="mt-6 space-y-2">
+        <div className="flex gap-2">
+          <input
+            list="exchange-rate-currencies"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            maxLength={3}
+            placeholder="Moeda"
+            className="w-20 bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm uppercase focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <datalist id="exchange-rate-currencies">
+            {COMMON_CURRENCIES.map((code) => (
+              <option key={code} value={code} />
+            ))}
+          </datalist>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="Cotação (R$)"
+            className="flex-1 min-w-0 bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={validFrom}
+            onChange={(e) => setValidFrom(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-50 border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <button
+            disabled={saving || currency.trim().length !== 3 || !rate.trim() || !validFrom}
+            className="bg-emerald-600 text-white px-3 py-2 rounded-xl hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            title="Salvar cotação"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
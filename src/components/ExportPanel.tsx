@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+
+const FORMATS = [
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'ofx', label: 'OFX' },
+];
+
+const fieldClassName =
+  'w-full text-sm bg-slate-50 border border-black/5 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+export default function ExportPanel({
+  categories,
+  range,
+}: {
+  categories: string[];
+  /** The dashboard period, used when no dates are picked here */
+  range: { since: string; until: string } | null;
+}) {
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [type, setType] = useState('');
+  const [category, setCategory] = useState('');
+  const [whatsappFrom, setWhatsappFrom] = useState('');
+  const [format, setFormat] = useState('xlsx');
+
+  const params = new URLSearchParams({ format });
+  if (since || range) params.set('since', since || range!.since);
+  if (until || range) params.set('until', until || range!.until);
+  if (type) params.set('type', type);
+  if (category) params.set('category', category);
+  if (whatsappFrom) params.set('whatsapp_from', whatsappFrom);
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+        <Download className="w-5 h-5 text-emerald-600" />
+        Exportar Transações
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>De</span>
+          <input type="date" value={since || range?.since || ''} onChange={(e) => setSince(e.target.value)} className={fieldClassName} />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>Até</span>
+          <input type="date" value={until || range?.until || ''} onChange={(e) => setUntil(e.target.value)} className={fieldClassName} />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>Tipo</span>
+          <select value={type} onChange={(e) => setType(e.target.value)} className={fieldClassName}>
+            <option value="">Todos</option>
+            <option value="income">Receitas</option>
+            <option value="expense">Despesas</option>
+          </select>
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>Categoria</span>
+          <input
+            list="export-categories"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            placeholder="Todas"
+            className={fieldClassName}
+          />
+          <datalist id="export-categories">
+            {categories.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>Origem</span>
+          <input
+            value={whatsappFrom}
+            onChange={(e) => setWhatsappFrom(e.target.value)}
+            placeholder="Todas"
+            className={fieldClassName}
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>Formato</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value)} className={fieldClassName}>
+            {FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>{f.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <a
+        href={`/api/export?${params.toString()}`}
+        download
+        className="mt-4 w-full bg-emerald-600 text-white py-3 rounded-xl font-semibold hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
+      >
+        <Download className="w-4 h-4" />
+        Exportar
+      </a>
+    </section>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Loader2, CheckCircle2, AlertCircle, X } from 'lucide-react';
+import { ImportAction, ImportRow } from '../types';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  import: 'Importar',
+  merge: 'Mesclar',
+  skip: 'Ignorar',
+};
+
+// Brazilian banks still export OFX/CSV in Windows-1252, so fall back to it when UTF-8 fails
+function readStatementFile(file: File, encoding = 'utf-8'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      if (encoding === 'utf-8' && text.includes('\uFFFD')) {
+        readStatementFile(file, 'windows-1252').then(resolve, reject);
+      } else {
+        resolve(text);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file, encoding);
+  });
+}
+
+function formatDay(date: string) {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+export default function ImportPanel({ onImported }: { onImported: () => void }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [filename, setFilename] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      const content = await readStatementFile(file);
+      const res = await fetch('/api/import/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, content }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setFilename(file.name);
+      setRows(data.rows);
+    } catch (error: any) {
+      console.error('Error previewing import:', error);
+      setMessage({ success: false, text: error.message || 'Não foi possível ler o arquivo.' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setAction = (index: number, action: ImportAction) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, action } : row)));
+  };
+
+  const handleCancel = () => {
+    setRows([]);
+    setFilename('');
+  };
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    try {
+      const res = await fetch('/api/import/commit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMessage({
+        success: true,
+        text: `${data.imported} importada(s), ${data.merged} mesclada(s), ${data.skipped} ignorada(s).`,
+      });
+      handleCancel();
+      onImported();
+    } catch (error: any) {
+      console.error('Error committing import:', error);
+      setMessage({ success: false, text: error.message || 'Falha ao importar.' });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const counts = rows.reduce(
+    (acc, row) => ({ ...acc, [row.action]: acc[row.action] + 1 }),
+    { import: 0, merge: 0, skip: 0 } as Record<ImportAction, number>
+  );
+
+  return (
+    <section className="bg-white rounded-3xl shadow-sm border border-black/5 overflow-hidden">
+      <div className="p-6 flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Upload className="w-5 h-5 text-emerald-600" />
+          Importar Extrato
+        </h3>
+        <input ref={inputRef} type="file" accept=".ofx,.csv,text/csv" onChange={handleFile} className="hidden" />
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={loading || committing}
+          className="text-sm font-medium text-emerald-600 hover:underline flex items-center gap-1 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          Escolher arquivo OFX/CSV
+        </button>
+      </div>
+
+      {message && (
+        <div className={`mx-6 mb-6 p-3 rounded-xl text-sm flex items-center gap-2 ${message.success ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+          {message.success ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          {message.text}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        !message && (
+          <p className="px-6 pb-6 text-sm text-muted-foreground italic">
+            Envie o extrato do banco para conferir os lançamentos antes de salvar. Lançamentos já registrados pelo WhatsApp são detectados.
+          </p>
+        )
+      ) : (
+        <>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-left">
+              <thead className="sticky top-0">
+                <tr className="bg-slate-50 text-muted-foreground text-xs uppercase tracking-wider">
+                  <th className="px-6 py-3 font-semibold">Data</th>
+                  <th className="px-6 py-3 font-semibold">Descrição</th>
+                  <th className="px-6 py-3 font-semibold text-right">Valor</th>
+                  <th className="px-6 py-3 font-semibold">Ação</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-black/5">
+                {rows.map((row, index) => (
+                  <tr key={row.external_id} className={row.action === 'skip' ? 'opacity-50' : ''}>
+                    <td className="px-6 py-3 text-sm text-muted-foreground whitespace-nowrap">{formatDay(row.date)}</td>
+                    <td className="px-6 py-3">
+                      <p className="text-sm font-medium">{row.description}</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        <span className="capitalize">{row.category}</span>
+                        {row.already_imported && <span className="text-amber-600"> · já importado</span>}
+                        {row.duplicate && (
+                          <span className="text-amber-600">
+                            {' '}· possível duplicata de "{row.duplicate.description}" ({new Date(row.duplicate.occurred_at).toLocaleDateString('pt-BR')})
+                          </span>
+                        )}
+                      </p>
+                    </td>
+                    <td className={`px-6 py-3 text-right text-sm font-bold whitespace-nowrap ${row.type === 'income' ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {row.type === 'income' ? '+' : '-'} R$ {row.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                    </td>
+                    <td className="px-6 py-3">
+                      <select
+                        value={row.action}
+                        onChange={(e) => setAction(index, e.target.value as ImportAction)}
+                        className="text-sm bg-slate-50 border border-black/5 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      >
+                        {(Object.keys(ACTION_LABELS) as ImportAction[])
+                          .filter((action) => action !== 'merge' || row.duplicate)
+                          .map((action) => (
+                            <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                          ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-6 flex items-center justify-between gap-4 border-t border-black/5">
+            <p className="text-xs text-muted-foreground">
+              {filename}: {counts.import} para importar, {counts.merge} para mesclar, {counts.skip} ignorada(s)
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleCancel}
+                disabled={committing}
+                className="p-2 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                title="Cancelar"
+              >
+                <X className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleCommit}
+                disabled={committing || counts.import + counts.merge === 0}
+                className="bg-emerald-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {committing && <Loader2 className="w-4 h-4 animate-spin" />}
+                Confirmar importação
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
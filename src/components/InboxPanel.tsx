@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { Inbox, RefreshCw, X, Plus, Loader2, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Category, InboundMessage } from '../types';
+
+function parseAmount(value: string) {
+  return parseFloat(value.replace(/\./g, '').replace(',', '.'));
+}
+
+// "5511999999999@c.us" reads better as the bare number
+function formatChat(chatId: string) {
+  return chatId.split('@')[0];
+}
+
+const inputClassName = 'bg-white border border-black/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+interface Draft {
+  amount: string;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+}
+
+// Starts from what the extractor read, when it read anything at all
+function draftFor(message: InboundMessage): Draft {
+  const [extracted] = (message.extracted || []) as Partial<Record<keyof Draft, any>>[];
+  return {
+    amount: extracted?.amount > 0 ? String(extracted.amount).replace('.', ',') : '',
+    type: extracted?.type === 'income' ? 'income' : 'expense',
+    category: typeof extracted?.category === 'string' ? extracted.category : '',
+    description: typeof extracted?.description === 'string' ? extracted.description : message.text || '',
+  };
+}
+
+export default function InboxPanel({
+  categories,
+  refreshKey,
+  onChanged,
+}: {
+  categories: Category[];
+  refreshKey: unknown;
+  onChanged: () => void;
+}) {
+  const [messages, setMessages] = useState<InboundMessage[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const fetchInbox = async () => {
+    try {
+      const res = await fetch('/api/messages?outcome=ignored,failed');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMessages(data);
+    } catch (error) {
+      console.error('Error fetching inbox:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchInbox();
+  }, [refreshKey]);
+
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    try {
+      const res = await action();
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchInbox();
+      onChanged();
+      return true;
+    } catch (error: any) {
+      console.error('Error updating inbox message:', error);
+      alert(`Não foi possível concluir: ${error.message}`);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReprocess = (id: string) => runAction(id, () => fetch(`/api/messages/${id}/reprocess`, { method: 'POST' }));
+
+  const handleDismiss = (id: string) => runAction(id, () => fetch(`/api/messages/${id}/dismiss`, { method: 'POST' }));
+
+  const startEditing = (message: InboundMessage) => {
+    setEditingId(message.id);
+    setDraft(draftFor(message));
+  };
+
+  const handleCreate = async (e: React.FormEvent, message: InboundMessage) => {
+    e.preventDefault();
+    if (!draft) return;
+    const created = await runAction(message.id, () =>
+      fetch(`/api/messages/${message.id}/transaction`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...draft, amount: parseAmount(draft.amount), description: draft.description.trim() }),
+      })
+    );
+    if (created) {
+      setEditingId(null);
+      setDraft(null);
+    }
+  };
+
+  const draftCategories = categories.filter((c) => c.type === draft?.type);
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Inbox className="w-5 h-5 text-emerald-600" />
+        Caixa de Entrada
+      </h3>
+      <p className="text-xs text-muted-foreground mb-6">
+        Mensagens das quais nada foi registrado. Reprocesse, registre a transação à mão ou descarte.
+      </p>
+
+      <div className="space-y-3">
+        {messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">Nenhuma mensagem pendente</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className="p-4 rounded-2xl bg-slate-50 text-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-[10px] text-muted-foreground">
+                    {message.source === 'simulator' ? 'Simulador' : formatChat(message.whatsapp_from)}
+                    {message.sender && ` · ${formatChat(message.sender)}`}
+                    {` · ${format(new Date(message.received_at), 'dd/MM HH:mm')}`}
+                    {message.latency_ms != null && ` · ${(message.latency_ms / 1000).toFixed(1)}s`}
+                  </p>
+                  <p className="font-medium break-words">{message.text || <span className="italic text-muted-foreground">Sem texto</span>}</p>
+                  <p className={`text-xs mt-1 flex items-center gap-1 ${message.outcome === 'failed' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {message.outcome === 'failed' && <AlertTriangle className="w-3 h-3 shrink-0" />}
+                    {message.outcome === 'failed' ? `Falhou: ${message.error}` : message.detail}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {busyId === message.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => startEditing(message)}
+                        className="p-1 rounded-lg text-emerald-600 hover:bg-emerald-100 transition-colors"
+                        title="Registrar transação"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleReprocess(message.id)}
+                        className="p-1 rounded-lg text-slate-500 hover:bg-slate-200 transition-colors"
+                        title="Reprocessar"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDismiss(message.id)}
+                        className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                        title="Descartar"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {editingId === message.id && draft && (
+                <form onSubmit={(e) => handleCreate(e, message)} className="mt-3 space-y-2">
+                  <div className="flex gap-2">
+                    <select
+                      value={draft.type}
+                      onChange={(e) => setDraft({ ...draft, type: e.target.value as Draft['type'], category: '' })}
+                      className={inputClassName}
+                    >
+                      <option value="expense">Saída</option>
+                      <option value="income">Entrada</option>
+                    </select>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.amount}
+                      onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                      placeholder="Valor (R$)"
+                      className={`w-28 ${inputClassName}`}
+                    />
+                    <select
+                      value={draft.category}
+                      onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                      className={`flex-1 min-w-0 ${inputClassName}`}
+                    >
+                      <option value="">Categoria…</option>
+                      {draftCategories.map((c) => (
+                        <option key={c.id} value={c.name}>{c.icon ? `${c.icon} ` : ''}{c.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      placeholder="Descrição"
+                      className={`flex-1 min-w-0 ${inputClassName}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-2 rounded-xl text-sm text-muted-foreground hover:bg-slate-200 transition-colors"
+                    >
+                      Cancelar
+                    </button>
+                    <button
+                      disabled={!(parseAmount(draft.amount) > 0) || !draft.category || !draft.description.trim()}
+                      className="bg-emerald-600 text-white px-3 py-2 rounded-xl text-sm hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                    >
+                      Registrar
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarRange, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { InstallmentOverview } from '../types';
+
+// Installment dates are calendar days; parse them as local midday so they never shift a day
+function parseCalendarDate(date: string) {
+  return new Date(`${date}T12:00:00`);
+}
+
+function formatMoney(value: number) {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// How many coming months the committed spending list shows
+const COMMITTED_MONTHS = 6;
+
+export default function InstallmentsPanel({ refreshKey, onChanged }: { refreshKey: unknown; onChanged: () => void }) {
+  const [overview, setOverview] = useState<InstallmentOverview | null>(null);
+
+  const fetchInstallments = async () => {
+    try {
+      const res = await fetch('/api/installments');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setOverview(data);
+    } catch (error) {
+      console.error('Error fetching installments:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchInstallments();
+  }, [refreshKey]);
+
+  const handleCancel = async (id: string, description: string) => {
+    if (!confirm(`Cancelar a compra "${description}"? As parcelas futuras serão removidas.`)) return;
+    try {
+      const res = await fetch(`/api/installments/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchInstallments();
+      onChanged();
+    } catch (error) {
+      console.error('Error cancelling installment purchase:', error);
+    }
+  };
+
+  const purchases = overview?.purchases || [];
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+        <CalendarRange className="w-5 h-5 text-emerald-600" />
+        Compras Parceladas
+      </h3>
+
+      <div className="p-4 rounded-2xl bg-slate-50 mb-6">
+        <p className="text-xs text-muted-foreground">Gastos futuros já comprometidos</p>
+        <p className="text-2xl font-bold tabular-nums">{formatMoney(overview?.total_committed || 0)}</p>
+        {(overview?.committed || []).length > 0 && (
+          <div className="mt-3 space-y-1">
+            {overview!.committed.slice(0, COMMITTED_MONTHS).map((month) => (
+              <div key={month.period} className="flex justify-between text-xs">
+                <span className="text-muted-foreground capitalize">
+                  {format(parseCalendarDate(`${month.period}-01`), 'MMM yyyy', { locale: ptBR })}
+                </span>
+                <span className="tabular-nums">{formatMoney(month.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {purchases.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">Nenhuma compra parcelada em andamento</p>
+        ) : (
+          purchases.map((purchase) => (
+            <div key={purchase.id} className="group flex items-start justify-between text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{purchase.description}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {purchase.paid_count}/{purchase.installment_count} pagas
+                  {purchase.next_date && ` · próxima em ${format(parseCalendarDate(purchase.next_date), 'dd/MM')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="text-right">
+                  <p className="font-bold tabular-nums">{formatMoney(purchase.remaining_amount)}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {purchase.remaining_count} {purchase.remaining_count === 1 ? 'parcela restante' : 'parcelas restantes'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleCancel(purchase.id, purchase.description)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-400 hover:text-red-500"
+                  title="Cancelar compra"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { HelpCircle, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { MissingField, PendingConfirmation } from '../types';
+
+const MISSING_FIELD_LABELS: Record<MissingField, string> = {
+  amount: 'valor',
+  type: 'tipo',
+  category: 'categoria',
+  description: 'descrição',
+};
+
+function formatMoney(value: number) {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Only shown while some extraction waits for an answer
+export default function PendingPanel({ refreshKey, onChanged }: { refreshKey: unknown; onChanged: () => void }) {
+  const [pending, setPending] = useState<PendingConfirmation[]>([]);
+
+  const fetchPending = async () => {
+    try {
+      const res = await fetch('/api/pending');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setPending(data);
+    } catch (error) {
+      console.error('Error fetching pending confirmations:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchPending();
+  }, [refreshKey]);
+
+  const handleConfirm = async (id: string) => {
+    try {
+      const res = await fetch(`/api/pending/${id}/confirm`, { method: 'POST' });
+      if (res.status === 400) {
+        alert('Falta o valor. Complete pelo WhatsApp, ex: "valor: 45", ou cancele.');
+        return;
+      }
+      if (!res.ok && res.status !== 409) throw new Error((await res.json()).error);
+      await fetchPending();
+      onChanged();
+    } catch (error) {
+      console.error('Error confirming pending transaction:', error);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      const res = await fetch(`/api/pending/${id}`, { method: 'DELETE' });
+      if (!res.ok && res.status !== 409) throw new Error((await res.json()).error);
+      await fetchPending();
+    } catch (error) {
+      console.error('Error cancelling pending transaction:', error);
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-amber-200">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <HelpCircle className="w-5 h-5 text-amber-500" />
+        Aguardando Confirmação
+      </h3>
+      <p className="text-xs text-muted-foreground mb-6">
+        Mensagens ambíguas só são registradas depois de confirmadas, aqui ou respondendo "1" no WhatsApp.
+      </p>
+
+      <div className="space-y-3">
+        {pending.map((item) => (
+          <div key={item.id} className="p-3 rounded-2xl bg-amber-50/60 text-sm">
+            {item.transactions.map((t, index) => (
+              <div key={index} className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{t.description}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {t.category}
+                    {t.installments ? ` · ${t.installments}x` : ''}
+                  </p>
+                </div>
+                <span className={`font-bold tabular-nums shrink-0 ${t.type === 'income' ? 'text-emerald-600' : ''}`}>
+                  {t.amount > 0 ? `${t.type === 'income' ? '+' : '-'} ${formatMoney(t.amount)}` : 'valor ?'}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between mt-2">
+              <p className="text-[10px] text-muted-foreground">
+                {item.missing_fields.length > 0
+                  ? `Faltou: ${item.missing_fields.map((field) => MISSING_FIELD_LABELS[field]).join(', ')}`
+                  : `Confiança ${Math.round(item.confidence * 100)}%`}
+                {` · expira às ${format(new Date(item.expires_at), 'HH:mm')}`}
+              </p>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleConfirm(item.id)}
+                  className="p-1 rounded-lg text-emerald-600 hover:bg-emerald-100 transition-colors"
+                  title="Confirmar"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleCancel(item.id)}
+                  className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                  title="Cancelar"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
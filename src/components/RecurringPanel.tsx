@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Repeat, Trash2, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { RecurringRule, ScheduledEntry } from '../types';
+
+type RuleWithNext = RecurringRule & { next_occurrence: string | null };
+
+// Scheduled dates are calendar days; parse them as local midday so they never shift a day
+function parseCalendarDate(date: string) {
+  return new Date(`${date}T12:00:00`);
+}
+
+function formatMoney(value: number) {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`;
+}
+
+export default function RecurringPanel({ balance, refreshKey }: { balance: number; refreshKey: unknown }) {
+  const [rules, setRules] = useState<RuleWithNext[]>([]);
+  const [upcoming, setUpcoming] = useState<ScheduledEntry[]>([]);
+
+  const fetchRecurring = async () => {
+    try {
+      const [rulesRes, upcomingRes] = await Promise.all([fetch('/api/recurring'), fetch('/api/recurring/upcoming')]);
+      const [rulesData, upcomingData] = await Promise.all([rulesRes.json(), upcomingRes.json()]);
+      if (!rulesRes.ok) throw new Error(rulesData.error);
+      if (!upcomingRes.ok) throw new Error(upcomingData.error);
+      setRules(rulesData);
+      setUpcoming(upcomingData);
+    } catch (error) {
+      console.error('Error fetching recurring entries:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecurring();
+  }, [refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/recurring/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchRecurring();
+    } catch (error) {
+      console.error('Error deleting recurring rule:', error);
+    }
+  };
+
+  // Summed in integer cents, like the server totals
+  const scheduledCents = upcoming.reduce((cents, entry) => cents + Math.round(entry.amount * 100) * (entry.type === 'income' ? 1 : -1), 0);
+  const projectedBalance = (Math.round(balance * 100) + scheduledCents) / 100;
+
+  return (
+    <section className="bg-white p-6 rounded-3xl shadow-sm border border-black/5">
+      <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+        <Repeat className="w-5 h-5 text-emerald-600" />
+        Lançamentos Recorrentes
+      </h3>
+
+      <div className="p-4 rounded-2xl bg-slate-50 mb-6">
+        <p className="text-[10px] uppercase font-bold text-muted-foreground tracking-wider">Saldo projetado no fim do mês</p>
+        <p className={`text-2xl font-bold tabular-nums ${projectedBalance < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+          {projectedBalance < 0 ? '-' : ''}{formatMoney(Math.abs(projectedBalance))}
+        </p>
+        <p className="text-[11px] text-muted-foreground mt-1">
+          {upcoming.length} lançamento(s) agendado(s) até o fim do mês
+        </p>
+      </div>
+
+      {upcoming.length > 0 && (
+        <div className="mb-6">
+          <p className="text-xs font-bold uppercase text-muted-foreground mb-2 flex items-center gap-1">
+            <CalendarClock className="w-3 h-3" /> Próximos
+          </p>
+          <div className="space-y-2">
+            {upcoming.map((entry) => (
+              <div key={`${entry.rule_id}-${entry.date}`} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {format(parseCalendarDate(entry.date), 'dd/MM', { locale: ptBR })} · {entry.description}
+                </span>
+                <span className={`font-medium tabular-nums ${entry.type === 'income' ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {entry.type === 'income' ? '+' : '-'} {formatMoney(entry.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">
+            Nenhuma regra. Envie no WhatsApp: "todo dia 10 pago 200 de condomínio"
+          </p>
+        ) : (
+          rules.map((rule) => (
+            <div key={rule.id} className="group flex items-center justify-between text-sm p-2 rounded-xl hover:bg-slate-50">
+              <div>
+                <p className="font-medium">{rule.description}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  Todo dia {rule.day_of_month} · {rule.category}
+                  {rule.next_occurrence ? ` · próximo ${format(parseCalendarDate(rule.next_occurrence), 'dd/MM/yy')}` : ' · encerrado'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`font-bold tabular-nums ${rule.type === 'income' ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {formatMoney(rule.amount)}
+                </span>
+                <button
+                  onClick={() => handleDelete(rule.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-400 hover:text-red-500"
+                  title="Remover regra"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
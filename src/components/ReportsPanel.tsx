@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Download, ExternalLink, Loader2, RefreshCw, CheckCircle2 } from 'lucide-react';
+import { MonthlyReport } from '../types';
+
+function formatPeriod(period: string) {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 15).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+}
+
+export default function ReportsPanel() {
+  const [reports, setReports] = useState<MonthlyReport[]>([]);
+  const [generating, setGenerating] = useState(false);
+
+  const fetchReports = async () => {
+    try {
+      const res = await fetch('/api/reports');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setReports(data);
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchReports();
+  }, []);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const res = await fetch('/api/reports/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchReports();
+    } catch (error) {
+      console.error('Error generating reports:', error);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-3xl shadow-sm border border-black/5 overflow-hidden">
+      <div className="p-6 flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <FileText className="w-5 h-5 text-emerald-600" />
+          Relatórios Mensais
+        </h3>
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="text-sm font-medium text-emerald-600 hover:underline flex items-center gap-1 disabled:opacity-50"
+        >
+          {generating ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          Gerar mês passado
+        </button>
+      </div>
+      {reports.length === 0 ? (
+        <p className="px-6 pb-6 text-sm text-muted-foreground italic">
+          Os relatórios são gerados e enviados no WhatsApp todo dia 1º.
+        </p>
+      ) : (
+        <div className="divide-y divide-black/5">
+          {reports.map((report) => (
+            <div key={report.id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium capitalize">{formatPeriod(report.period)}</p>
+                <p className="text-[10px] text-muted-foreground flex items-center gap-1">
+                  {report.whatsapp_from}
+                  {report.sent_at && (
+                    <span className="flex items-center gap-1 text-emerald-600">
+                      · <CheckCircle2 className="w-2 h-2" /> enviado
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`text-sm font-bold tabular-nums ${report.summary.balance < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                  R$ {report.summary.balance.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                </span>
+                <a
+                  href={`/api/reports/${report.id}/html`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-slate-400 hover:text-emerald-600"
+                  title="Abrir relatório"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+                <a
+                  href={`/api/reports/${report.id}/html?download=1`}
+                  className="text-slate-400 hover:text-emerald-600"
+                  title="Baixar relatório"
+                >
+                  <Download className="w-4 h-4" />
+                </a>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
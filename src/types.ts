@@ -1,16 +1,402 @@
+export type Extractor = 'gemini' | 'rules' | 'import' | 'manual';
+
+export type PaymentMethod = 'pix' | 'debit' | 'credit' | 'cash' | 'boleto' | 'transfer';
+
+export type AccountKind = 'checking' | 'savings' | 'cash' | 'credit_card';
+
 export interface Transaction {
   id: string;
+  /** When the row was recorded */
   created_at: string;
+  /** When the transaction happened; used for every grouping, filter and sort */
+  occurred_at: string;
+  /** In the base currency (BRL), converted when the transaction was in another one */
   amount: number;
+  /** ISO 4217 code the transaction was made in */
+  currency: string;
+  /** Amount in `currency`, set only when it is not the base currency */
+  original_amount?: number | null;
+  /** Base-currency units per unit of `currency` used for the conversion */
+  exchange_rate?: number | null;
+  /** Account or card the money left or arrived in; null for rows recorded before accounts existed */
+  account_id?: string | null;
+  payment_method?: PaymentMethod | null;
   type: 'income' | 'expense';
   category: string;
   description: string;
   raw_text?: string;
   whatsapp_from?: string;
+  attachment_url?: string | null;
+  confirmation_message_id?: string | null;
+  extractor?: Extractor | null;
+  recurring_rule_id?: string | null;
+  /** Set on each installment of a purchase paid in parts ("10x de 300") */
+  installment_purchase_id?: string | null;
+  /** 1-based position among `installment_count` installments */
+  installment_number?: number | null;
+  installment_count?: number | null;
+  /** In a WhatsApp group, the participant who sent the message and paid; `whatsapp_from` is the group */
+  paid_by?: string | null;
+  /** Bank reference (OFX FITID or a hash of the CSV row) for imported or merged rows */
+  external_id?: string | null;
+  /** The WhatsApp or simulator message the transaction came from */
+  inbound_message_id?: string | null;
+  /** Establishment or payee read from a receipt photo */
+  merchant?: string | null;
+}
+
+export interface Category {
+  id: string;
+  /** Canonical lowercase name stored on transactions, budgets and rules */
+  name: string;
+  /** Set for subcategories */
+  parent_id?: string | null;
+  type: 'income' | 'expense';
+  /** Emoji shown in WhatsApp replies and the dashboard */
+  icon?: string | null;
+  /** Hex color for charts */
+  color?: string | null;
+  created_at: string;
+}
+
+export interface MerchantRule {
+  id: string;
+  /** Lowercase, accent-free text looked for in transaction descriptions */
+  pattern: string;
+  category: string;
+  created_at: string;
+}
+
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  /** Credit cards only: day the invoice closes; purchases from this day on go to the next invoice */
+  closing_day?: number | null;
+  /** Credit cards only: day the invoice is due */
+  due_day?: number | null;
+  /** Balance before the first recorded transaction; negative for card debt */
+  opening_balance: number;
+  created_at: string;
+}
+
+export interface AccountBalance extends Account {
+  /** Money available, or minus the outstanding debt for credit cards */
+  balance: number;
 }
 
-export interface DashboardStats {
+/** Money moved between two accounts, such as paying a card invoice; neither income nor expense */
+export interface Transfer {
+  id: string;
+  /** Null when the money came from outside the tracked accounts */
+  from_account_id: string | null;
+  /** Null when the money left the tracked accounts */
+  to_account_id: string | null;
+  amount: number;
+  description: string;
+  occurred_at: string;
+  whatsapp_from?: string | null;
+  created_at: string;
+}
+
+export interface Invoice {
+  account_id: string;
+  account_name: string;
+  /** YYYY-MM-DD the invoice closes; purchases before it and after the previous one are on it */
+  closing_date: string;
+  due_date: string;
+  /** Purchases minus refunds */
+  total: number;
+  /** Card payments allocated to this invoice, oldest invoice first */
+  paid: number;
+  status: 'open' | 'closed' | 'paid';
+}
+
+/** A purchase split into monthly installments, each one recorded as its own transaction */
+export interface InstallmentPurchase {
+  id: string;
+  description: string;
+  category: string;
+  /** Sum of every installment, in the base currency */
+  total_amount: number;
+  installment_count: number;
+  /** YYYY-MM-DD of the first installment; the others follow on the same day of each month */
+  first_date: string;
+  account_id?: string | null;
+  payment_method?: PaymentMethod | null;
+  whatsapp_from?: string | null;
+  /** Set when the purchase was cancelled and its future installments removed */
+  cancelled_at?: string | null;
+  created_at: string;
+}
+
+export interface InstallmentSummary extends InstallmentPurchase {
+  paid_count: number;
+  remaining_count: number;
+  remaining_amount: number;
+  /** YYYY-MM-DD of the next installment, or null once all are paid */
+  next_date: string | null;
+}
+
+export interface InstallmentOverview {
+  /** Purchases with installments still to come, next due first */
+  purchases: InstallmentSummary[];
+  /** Future installments by month (YYYY-MM) */
+  committed: { period: string; amount: number }[];
+  total_committed: number;
+}
+
+/** A participant of a WhatsApp group, named after their WhatsApp profile */
+export interface GroupMember {
+  id: string;
+  /** Group chat id (…@g.us) */
+  group_id: string;
+  /** Participant chat id (…@c.us) */
+  member_id: string;
+  name: string;
+  created_at: string;
+}
+
+/**
+ * A movement between two group members: a share of an expense the debtor owes
+ * the creditor, or a settlement the debtor paid the creditor back
+ */
+export interface SplitEntry {
+  id: string;
+  group_id: string;
+  debtor_id: string;
+  creditor_id: string;
+  amount: number;
+  kind: 'share' | 'settlement';
+  /** The split expense, for shares */
+  transaction_id?: string | null;
+  description: string;
+  created_at: string;
+}
+
+export interface GroupDebt {
+  debtor_id: string;
+  debtor_name: string;
+  creditor_id: string;
+  creditor_name: string;
+  amount: number;
+}
+
+/** Fields the extractor could not read from the message and had to guess */
+export type MissingField = 'amount' | 'type' | 'category' | 'description';
+
+export type PendingStatus = 'pending' | 'confirmed' | 'cancelled' | 'expired';
+
+/** A transaction as it will be saved once confirmed; `amount` is the total of a purchase in installments */
+export type PendingTransaction = Omit<Transaction, 'id' | 'created_at' | 'currency'> & {
+  currency?: string;
+  installments?: number | null;
+};
+
+/**
+ * Transactions extracted from an ambiguous message, held until the sender
+ * confirms or cancels them, or the hold expires
+ */
+export interface PendingConfirmation {
+  id: string;
+  whatsapp_from: string;
+  /** In a WhatsApp group, the participant who must answer */
+  sender?: string | null;
+  transactions: PendingTransaction[];
+  /** Group members the expenses are split with */
+  split_with: string[];
+  /** The extractor's confidence, from 0 to 1 */
+  confidence: number;
+  missing_fields: MissingField[];
+  /** The bot message asking for confirmation */
+  question_message_id?: string | null;
+  status: PendingStatus;
+  expires_at: string;
+  resolved_at?: string | null;
+  created_at: string;
+}
+
+export type MessageSource = 'whatsapp' | 'simulator';
+
+/**
+ * What became of an inbound message. 'ignored' and 'failed' messages are in the
+ * inbox until they are turned into a transaction by hand ('manual') or dismissed.
+ */
+export type MessageOutcome =
+  | 'received'
+  | 'saved'
+  | 'pending'
+  | 'handled'
+  | 'ignored'
+  | 'failed'
+  | 'rejected'
+  | 'manual'
+  | 'dismissed';
+
+/** Every message received over WhatsApp or typed in the simulator, with what was done with it */
+export interface InboundMessage {
+  id: string;
+  source: MessageSource;
+  /** WAHA message id; null for the simulator */
+  external_id?: string | null;
+  /** Chat the message came from: the group, for group messages */
+  whatsapp_from: string;
+  /** In a group, the participant who wrote it */
+  sender?: string | null;
+  /** Text, caption or voice transcript */
+  text?: string | null;
+  payload: any;
+  /** Transactions the extractor returned, before anything was saved */
+  extracted?: unknown[] | null;
+  outcome: MessageOutcome;
+  /** Why it was ignored ("Not a financial transaction") or how it was handled ("command") */
+  detail?: string | null;
+  error?: string | null;
+  /** Time the last processing attempt took */
+  latency_ms?: number | null;
+  received_at: string;
+  processed_at?: string | null;
+}
+
+export interface ExchangeRate {
+  id: string;
+  /** ISO 4217 code */
+  currency: string;
+  /** Base-currency units per unit of `currency` */
+  rate: number;
+  /** YYYY-MM-DD from which the rate applies, until a later one for the same currency */
+  valid_from: string;
+  created_at: string;
+}
+
+export interface Budget {
+  id: string;
+  category: string;
+  monthly_limit: number;
+  created_at: string;
+}
+
+export interface BudgetStatus extends Budget {
+  spent: number;
+  /** spent / monthly_limit, as a percentage (can exceed 100) */
+  percentage: number;
+}
+
+export interface RecurringRule {
+  id: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+  /** 1-31; months without that day use their last day */
+  day_of_month: number;
+  /** First date (YYYY-MM-DD) an occurrence may fall on */
+  start_date: string;
+  /** Last date (YYYY-MM-DD) an occurrence may fall on, or null for no end */
+  end_date?: string | null;
+  /** Date of the latest occurrence already written to transactions */
+  last_generated_on?: string | null;
+  whatsapp_from?: string | null;
+  created_at: string;
+}
+
+export interface ScheduledEntry {
+  rule_id: string;
+  date: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+}
+
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+  /** Share of the month's expenses, 0-100 */
+  percentage: number;
+}
+
+export interface MonthlyReportSummary {
+  /** YYYY-MM */
+  period: string;
+  whatsapp_from: string;
+  income: number;
+  expenses: number;
+  balance: number;
+  transaction_count: number;
+  top_categories: CategoryTotal[];
+  /** Summaries saved before occurred_at existed carry created_at instead */
+  biggest_expenses: (Pick<Transaction, 'amount' | 'category' | 'description'> & { occurred_at?: string; created_at?: string })[];
+  previous: { income: number; expenses: number; balance: number } | null;
+}
+
+export interface MonthlyReport {
+  id: string;
+  whatsapp_from: string;
+  period: string;
+  summary: MonthlyReportSummary;
+  sent_at?: string | null;
+  created_at: string;
+}
+
+export type ImportAction = 'import' | 'merge' | 'skip';
+
+export interface ImportRow {
+  external_id: string;
+  /** YYYY-MM-DD */
+  date: string;
+  amount: number;
+  type: 'income' | 'expense';
+  description: string;
+  category: string;
+  /** Existing transaction with the same external_id, so the row was imported before */
+  already_imported: boolean;
+  /** Likely duplicate among existing transactions, with a 0-1 similarity score */
+  duplicate?: (Pick<Transaction, 'id' | 'occurred_at' | 'amount' | 'description' | 'category'> & { score: number }) | null;
+  action: ImportAction;
+}
+
+export type JobStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+export interface WebhookJob {
+  id: string;
+  message_id: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CashFlowGranularity = 'day' | 'week' | 'month';
+
+export interface CashFlowBucket {
+  /** Inclusive YYYY-MM-DD bounds, clipped to the requested range */
+  since: string;
+  until: string;
+  income: number;
+  expenses: number;
+  /** Running balance at the end of the bucket, starting from everything before the range */
+  balance: number;
+}
+
+export interface PeriodTotals {
+  /** Inclusive YYYY-MM-DD bounds */
+  since: string;
+  until: string;
   totalIncome: number;
   totalExpenses: number;
   balance: number;
+  transactionCount: number;
+}
+
+export interface DashboardStats extends PeriodTotals {
+  /** The equivalent period right before this one, for trend comparisons */
+  previous: PeriodTotals;
+  /** Expenses of the period by category, largest first */
+  categories: CategoryTotal[];
+  /** Money in hand over the whole history up to now, regardless of the selected period; card debt is not subtracted until it is paid */
+  currentBalance: number;
 }
@@ -0,0 +1,7 @@
+-- Receipt photos sent over WhatsApp are stored in Supabase Storage and linked to the transaction.
+alter table public.transactions
+  add column if not exists attachment_url text;
+
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', true)
+on conflict (id) do nothing;
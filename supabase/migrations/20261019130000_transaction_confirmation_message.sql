@@ -0,0 +1,6 @@
+-- WAHA id of the bot confirmation for each transaction, used to apply quote-reply corrections.
+alter table public.transactions
+  add column if not exists confirmation_message_id text;
+
+create index if not exists transactions_confirmation_message_id_idx
+  on public.transactions (confirmation_message_id);
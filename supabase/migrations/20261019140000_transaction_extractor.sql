@@ -0,0 +1,3 @@
+-- Which extractor produced each row: 'gemini' or the offline 'rules' parser.
+alter table public.transactions
+  add column if not exists extractor text;
@@ -0,0 +1,16 @@
+-- Durable queue for WAHA webhook messages. The unique message_id deduplicates redeliveries,
+-- and jobs that exhaust their retries stay in the 'dead' status until replayed from the dashboard.
+create table if not exists public.webhook_jobs (
+  id uuid primary key default gen_random_uuid(),
+  message_id text not null unique,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'processing', 'done', 'dead')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists webhook_jobs_status_next_attempt_idx
+  on public.webhook_jobs (status, next_attempt_at);
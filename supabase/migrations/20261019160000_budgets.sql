@@ -0,0 +1,9 @@
+-- Monthly spending limits per category, checked after every WhatsApp entry.
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  category text not null,
+  monthly_limit numeric(12, 2) not null check (monthly_limit > 0),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists budgets_category_idx on public.budgets (lower(category));
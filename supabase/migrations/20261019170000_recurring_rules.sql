@@ -0,0 +1,17 @@
+-- Fixed monthly entries (rent, subscriptions, salary) materialized into transactions by the server scheduler.
+create table if not exists public.recurring_rules (
+  id uuid primary key default gen_random_uuid(),
+  amount numeric(12, 2) not null check (amount > 0),
+  type text not null check (type in ('income', 'expense')),
+  category text not null,
+  description text not null,
+  day_of_month integer not null check (day_of_month between 1 and 31),
+  start_date date not null,
+  end_date date,
+  last_generated_on date,
+  whatsapp_from text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.transactions
+  add column if not exists recurring_rule_id uuid references public.recurring_rules (id) on delete set null;
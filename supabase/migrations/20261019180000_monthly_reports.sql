@@ -0,0 +1,10 @@
+-- Monthly summaries per sender, generated and sent over WhatsApp on the first day of each month.
+create table if not exists public.monthly_reports (
+  id uuid primary key default gen_random_uuid(),
+  whatsapp_from text not null,
+  period text not null check (period ~ '^\d{4}-\d{2}$'),
+  summary jsonb not null,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (whatsapp_from, period)
+);
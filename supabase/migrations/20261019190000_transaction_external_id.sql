@@ -0,0 +1,6 @@
+-- Bank reference of imported statement rows (OFX FITID or a hash of the CSV row), used to skip re-imports.
+alter table public.transactions
+  add column if not exists external_id text;
+
+create index if not exists transactions_external_id_idx
+  on public.transactions (external_id);
@@ -0,0 +1,83 @@
+-- Managed category taxonomy and merchant rules, then re-map the free-text categories already stored.
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  parent_id uuid references public.categories (id) on delete cascade,
+  type text not null check (type in ('income', 'expense')),
+  icon text,
+  color text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists categories_name_idx on public.categories (lower(name));
+
+create table if not exists public.merchant_rules (
+  id uuid primary key default gen_random_uuid(),
+  pattern text not null unique,
+  category text not null,
+  created_at timestamptz not null default now()
+);
+
+insert into public.categories (name, type, icon, color) values
+  ('alimentação', 'expense', '🍽️', '#10b981'),
+  ('transporte', 'expense', '🚗', '#3b82f6'),
+  ('moradia', 'expense', '🏠', '#f59e0b'),
+  ('saúde', 'expense', '💊', '#ef4444'),
+  ('educação', 'expense', '📚', '#8b5cf6'),
+  ('lazer', 'expense', '🎉', '#ec4899'),
+  ('compras', 'expense', '🛍️', '#06b6d4'),
+  ('assinaturas', 'expense', '📺', '#6366f1'),
+  ('outros', 'expense', '📦', '#94a3b8'),
+  ('salário', 'income', '💼', '#059669'),
+  ('investimentos', 'income', '📈', '#0ea5e9'),
+  ('outras receitas', 'income', '💰', '#84cc16')
+on conflict do nothing;
+
+create temporary table category_aliases (alias text primary key, category text not null);
+
+insert into category_aliases (alias, category) values
+  ('alimentação', 'alimentação'), ('alimentacao', 'alimentação'), ('comida', 'alimentação'), ('restaurante', 'alimentação'),
+  ('restaurantes', 'alimentação'), ('mercado', 'alimentação'), ('supermercado', 'alimentação'), ('lanche', 'alimentação'),
+  ('refeição', 'alimentação'), ('refeicao', 'alimentação'), ('padaria', 'alimentação'), ('delivery', 'alimentação'),
+  ('ifood', 'alimentação'), ('transporte', 'transporte'), ('uber', 'transporte'), ('combustível', 'transporte'),
+  ('combustivel', 'transporte'), ('gasolina', 'transporte'), ('táxi', 'transporte'), ('taxi', 'transporte'),
+  ('carro', 'transporte'), ('moradia', 'moradia'), ('casa', 'moradia'), ('aluguel', 'moradia'), ('contas', 'moradia'),
+  ('condomínio', 'moradia'), ('condominio', 'moradia'), ('energia', 'moradia'), ('internet', 'moradia'),
+  ('saúde', 'saúde'), ('saude', 'saúde'), ('farmácia', 'saúde'), ('farmacia', 'saúde'), ('médico', 'saúde'),
+  ('medico', 'saúde'), ('academia', 'saúde'), ('educação', 'educação'), ('educacao', 'educação'), ('escola', 'educação'),
+  ('curso', 'educação'), ('cursos', 'educação'), ('livros', 'educação'), ('lazer', 'lazer'), ('entretenimento', 'lazer'),
+  ('diversão', 'lazer'), ('diversao', 'lazer'), ('viagem', 'lazer'), ('viagens', 'lazer'), ('compras', 'compras'),
+  ('vestuário', 'compras'), ('vestuario', 'compras'), ('roupas', 'compras'), ('eletrônicos', 'compras'),
+  ('eletronicos', 'compras'), ('assinaturas', 'assinaturas'), ('assinatura', 'assinaturas'), ('streaming', 'assinaturas'),
+  ('outros', 'outros'), ('outro', 'outros'), ('diversos', 'outros'), ('salário', 'salário'), ('salario', 'salário'),
+  ('renda', 'salário'), ('investimentos', 'investimentos'), ('investimento', 'investimentos'),
+  ('rendimentos', 'investimentos'), ('dividendos', 'investimentos'), ('outras receitas', 'outras receitas'),
+  ('receita', 'outras receitas'), ('receitas', 'outras receitas'), ('reembolso', 'outras receitas'),
+  ('freelance', 'outras receitas'), ('vendas', 'outras receitas');
+
+update public.transactions t set category = coalesce(
+  (select a.category from category_aliases a where a.alias = lower(trim(t.category))),
+  (select c.name from public.categories c where lower(c.name) = lower(trim(t.category))),
+  case t.type when 'income' then 'outras receitas' else 'outros' end
+);
+
+update public.recurring_rules r set category = coalesce(
+  (select a.category from category_aliases a where a.alias = lower(trim(r.category))),
+  (select c.name from public.categories c where lower(c.name) = lower(trim(r.category))),
+  case r.type when 'income' then 'outras receitas' else 'outros' end
+);
+
+-- One budget per canonical category; the others keep their old name rather than break the unique index
+update public.budgets b set category = a.category
+from category_aliases a
+where a.alias = lower(trim(b.category))
+  and b.category <> a.category
+  and not exists (select 1 from public.budgets other where lower(other.category) = a.category)
+  and b.id in (
+    select distinct on (a2.category) b2.id
+    from public.budgets b2
+    join category_aliases a2 on a2.alias = lower(trim(b2.category))
+    order by a2.category, b2.created_at
+  );
+
+drop table category_aliases;
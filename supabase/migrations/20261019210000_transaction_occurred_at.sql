@@ -0,0 +1,15 @@
+-- When the transaction happened, as opposed to when it was recorded. Dashboard grouping, filters and sorting use it.
+alter table public.transactions
+  add column if not exists occurred_at timestamptz;
+
+-- Rows saved so far kept the transaction date in created_at
+update public.transactions
+  set occurred_at = created_at
+  where occurred_at is null;
+
+alter table public.transactions
+  alter column occurred_at set default now(),
+  alter column occurred_at set not null;
+
+create index if not exists transactions_occurred_at_idx
+  on public.transactions (occurred_at desc, id desc);
@@ -0,0 +1,14 @@
+-- Transactions keep the currency they were made in; amount stays in BRL, converted with a locally maintained rate table.
+alter table public.transactions
+  add column if not exists currency text not null default 'BRL',
+  add column if not exists original_amount numeric(14, 2),
+  add column if not exists exchange_rate numeric(14, 6);
+
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  rate numeric(14, 6) not null check (rate > 0),
+  valid_from date not null,
+  created_at timestamptz not null default now(),
+  unique (currency, valid_from)
+);
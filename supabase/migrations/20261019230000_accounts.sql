@@ -0,0 +1,32 @@
+-- Accounts and credit cards, transfers between them, and how each transaction was paid.
+create table if not exists public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  kind text not null check (kind in ('checking', 'savings', 'cash', 'credit_card')),
+  closing_day integer check (closing_day between 1 and 31),
+  due_day integer check (due_day between 1 and 31),
+  opening_balance numeric(14, 2) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists accounts_name_idx on public.accounts (lower(name));
+
+create table if not exists public.transfers (
+  id uuid primary key default gen_random_uuid(),
+  from_account_id uuid references public.accounts (id),
+  to_account_id uuid references public.accounts (id),
+  amount numeric(14, 2) not null check (amount > 0),
+  description text not null,
+  occurred_at timestamptz not null default now(),
+  whatsapp_from text,
+  created_at timestamptz not null default now(),
+  check (from_account_id is not null or to_account_id is not null)
+);
+
+create index if not exists transfers_occurred_at_idx on public.transfers (occurred_at);
+
+alter table public.transactions
+  add column if not exists account_id uuid references public.accounts (id),
+  add column if not exists payment_method text check (payment_method in ('pix', 'debit', 'credit', 'cash', 'boleto', 'transfer'));
+
+create index if not exists transactions_account_id_idx on public.transactions (account_id);
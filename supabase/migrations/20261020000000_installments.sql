@@ -0,0 +1,21 @@
+-- Purchases paid in monthly installments; each installment is its own transaction.
+create table if not exists public.installment_purchases (
+  id uuid primary key default gen_random_uuid(),
+  description text not null,
+  category text not null,
+  total_amount numeric(14, 2) not null check (total_amount > 0),
+  installment_count integer not null check (installment_count > 1),
+  first_date date not null,
+  account_id uuid references public.accounts (id),
+  payment_method text check (payment_method in ('pix', 'debit', 'credit', 'cash', 'boleto', 'transfer')),
+  whatsapp_from text,
+  cancelled_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.transactions
+  add column if not exists installment_purchase_id uuid references public.installment_purchases (id),
+  add column if not exists installment_number integer,
+  add column if not exists installment_count integer;
+
+create index if not exists transactions_installment_purchase_id_idx on public.transactions (installment_purchase_id);
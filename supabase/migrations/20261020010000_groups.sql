@@ -0,0 +1,26 @@
+-- WhatsApp group members and the shares and settlements between them.
+create table if not exists public.group_members (
+  id uuid primary key default gen_random_uuid(),
+  group_id text not null,
+  member_id text not null,
+  name text not null,
+  created_at timestamptz not null default now(),
+  unique (group_id, member_id)
+);
+
+create table if not exists public.split_entries (
+  id uuid primary key default gen_random_uuid(),
+  group_id text not null,
+  debtor_id text not null,
+  creditor_id text not null,
+  amount numeric(14, 2) not null check (amount > 0),
+  kind text not null check (kind in ('share', 'settlement')),
+  transaction_id uuid references public.transactions (id) on delete cascade,
+  description text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists split_entries_group_id_idx on public.split_entries (group_id);
+
+alter table public.transactions
+  add column if not exists paid_by text;
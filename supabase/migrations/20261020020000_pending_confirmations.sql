@@ -0,0 +1,17 @@
+-- Transactions extracted with low confidence, held until the sender confirms them.
+create table if not exists public.pending_confirmations (
+  id uuid primary key default gen_random_uuid(),
+  whatsapp_from text not null,
+  sender text,
+  transactions jsonb not null,
+  split_with jsonb not null default '[]'::jsonb,
+  confidence numeric(4, 3) not null,
+  missing_fields jsonb not null default '[]'::jsonb,
+  question_message_id text,
+  status text not null default 'pending' check (status in ('pending', 'confirmed', 'cancelled', 'expired')),
+  expires_at timestamptz not null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists pending_confirmations_status_idx on public.pending_confirmations (status, expires_at);
@@ -0,0 +1,23 @@
+-- Every message received over WhatsApp or typed in the simulator, with what was done with it.
+-- Ignored and failed messages make up the dashboard inbox; transactions point back to their message.
+create table if not exists public.inbound_messages (
+  id uuid primary key default gen_random_uuid(),
+  source text not null check (source in ('whatsapp', 'simulator')),
+  external_id text unique,
+  whatsapp_from text not null,
+  sender text,
+  text text,
+  payload jsonb not null,
+  extracted jsonb,
+  outcome text not null,
+  detail text,
+  error text,
+  latency_ms integer,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create index if not exists inbound_messages_outcome_idx on public.inbound_messages (outcome, received_at desc);
+
+alter table public.transactions
+  add column if not exists inbound_message_id uuid references public.inbound_messages (id) on delete set null;
@@ -0,0 +1,16 @@
+-- Receipt photos are no longer public: the dashboard gets short-lived signed URLs instead.
+-- A bucket other than "attachments" (SUPABASE_ATTACHMENTS_BUCKET) must be created private as well.
+-- No storage.objects policies are added on purpose: the server uploads and signs with SUPABASE_SERVICE_ROLE_KEY,
+-- and the anon key gets no access to the photos.
+update storage.buckets
+set public = false
+where id = 'attachments';
+
+-- Transactions keep the object path; public URLs stored before are cut down to it.
+update public.transactions
+set attachment_url = regexp_replace(attachment_url, '^.*/storage/v1/object/public/attachments/', '')
+where attachment_url like '%/storage/v1/object/public/attachments/%';
+
+-- Establishment or payee read from a receipt photo.
+alter table public.transactions
+  add column if not exists merchant text;
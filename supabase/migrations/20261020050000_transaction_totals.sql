@@ -0,0 +1,13 @@
+-- Income and expense totals summed in the database, so balances over the whole history
+-- do not read every transaction. Both bounds are optional; since is inclusive, until exclusive.
+create or replace function public.transaction_totals(since_at timestamptz default null, until_at timestamptz default null)
+returns table (type text, total numeric, count bigint)
+language sql
+stable
+as $$
+  select t.type, sum(t.amount), count(*)
+  from public.transactions t
+  where (since_at is null or t.occurred_at >= since_at)
+    and (until_at is null or t.occurred_at < until_at)
+  group by t.type;
+$$;
@@ -0,0 +1,4 @@
+-- Inbound messages hold the raw WhatsApp payloads and phone numbers. With row level security on and no
+-- policies, the anon key can neither read nor write them; the server connects with SUPABASE_SERVICE_ROLE_KEY,
+-- which bypasses it.
+alter table public.inbound_messages enable row level security;